@@ -0,0 +1,157 @@
+import { useCallback, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, AlertTriangle, Download, FileUp, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { TrainedModel } from '@/types/pipeline';
+import { readDataFile, toCsv } from '@/lib/data-files';
+import { FeatureColumnReport, checkFeatureColumns, scoreRows } from '@/lib/batch-scoring';
+import { downloadFile } from '@/lib/utils';
+
+interface BatchScoringProps {
+  model: TrainedModel;
+}
+
+interface LoadedFile {
+  fileName: string;
+  rows: Record<string, unknown>[];
+  report: FeatureColumnReport;
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return `${count.toLocaleString()} ${count === 1 ? singular : pluralForm}`;
+}
+
+export function BatchScoring({ model }: BatchScoringProps) {
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFileInput = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const rows = await readDataFile(file);
+      if (rows.length === 0) {
+        throw new Error('The file appears to be empty');
+      }
+      setLoaded({ fileName: file.name, rows, report: checkFeatureColumns(model, rows) });
+    } catch (err) {
+      setLoaded(null);
+      setError(err instanceof Error ? err.message : 'Failed to read file. Please check the file format.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [model]);
+
+  const handleDownload = useCallback(() => {
+    if (!loaded) return;
+    const baseName = loaded.fileName.replace(/\.[^.]+$/, '');
+    downloadFile(`${baseName}-scored.csv`, toCsv(scoreRows(model, loaded.rows)), 'text/csv');
+  }, [loaded, model]);
+
+  const report = loaded?.report;
+  const canScore = report !== undefined && report.missingColumns.length === 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.65 }}
+    >
+      <Card className="p-5">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-3">
+            <FileUp className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <h3 className="font-medium">Batch Scoring</h3>
+              <p className="text-xs text-muted-foreground">
+                Score a new CSV or Excel file and download it with predictions appended
+              </p>
+            </div>
+          </div>
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileInput}
+              className="hidden"
+            />
+            <span className="inline-flex items-center gap-2 h-9 px-3 rounded-md border border-input bg-background text-sm font-medium cursor-pointer hover:bg-secondary transition-colors">
+              {isLoading ? (
+                <div className="w-4 h-4 border-2 border-foreground border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              Choose File
+            </span>
+          </label>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {loaded && report && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              <span className="font-medium">{loaded.fileName}</span>
+              <span className="text-muted-foreground"> · {report.rows.toLocaleString()} rows</span>
+            </p>
+
+            {report.missingColumns.length > 0 && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive">
+                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <p className="text-sm">
+                  Missing feature {report.missingColumns.length === 1 ? 'column' : 'columns'}:{' '}
+                  <span className="font-medium">{report.missingColumns.join(', ')}</span>.
+                  The file cannot be scored until {report.missingColumns.length === 1 ? 'it is' : 'they are'} added.
+                </p>
+              </div>
+            )}
+
+            {(report.invalidNumeric.length > 0 || report.unseenCategories.length > 0) && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-stage-preprocess/10 border border-stage-preprocess/30">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5 text-stage-preprocess" />
+                <ul className="text-sm space-y-1">
+                  {report.invalidNumeric.map(({ column, count }) => (
+                    <li key={column}>
+                      <span className="font-medium">{column}</span>:{' '}
+                      {plural(count, 'non-numeric value', 'non-numeric values')} will be treated as missing
+                    </li>
+                  ))}
+                  {report.unseenCategories.map(({ column, values }) => (
+                    <li key={column}>
+                      <span className="font-medium">{column}</span>:{' '}
+                      {plural(values.length, 'category', 'categories')} not seen in training
+                      ({values.slice(0, 3).join(', ')}{values.length > 3 && ', …'}) will be encoded as unknown
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.extraColumns.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {plural(report.extraColumns.length, 'other column is', 'other columns are')} kept in the
+                output but not used by the model
+              </p>
+            )}
+
+            <Button onClick={handleDownload} disabled={!canScore} className="gap-2 bg-stage-results hover:bg-stage-results/90">
+              <Download className="w-4 h-4" />
+              Download Scored CSV
+            </Button>
+          </div>
+        )}
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,67 @@
+import { motion } from 'framer-motion';
+import { Layers } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { BoostingHistory } from '@/types/pipeline';
+
+interface BoostingLossChartProps {
+  history: BoostingHistory;
+}
+
+const chartConfig = {
+  train: { label: 'Training loss', color: 'hsl(var(--stage-model))' },
+  validation: { label: 'Validation loss', color: 'hsl(var(--stage-results))' },
+} satisfies ChartConfig;
+
+export function BoostingLossChart({ history }: BoostingLossChartProps) {
+  const data = history.rounds.map((round, i) => ({ round: i + 1, ...round }));
+  const hasValidation = history.rounds.some(round => round.validation !== null);
+  const stoppedEarly = history.rounds.length > history.bestRound;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-5">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Layers className="w-5 h-5 text-muted-foreground" />
+            <h3 className="font-medium">Boosting Loss per Round</h3>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {history.bestRound} of {history.rounds.length} rounds kept
+            {stoppedEarly && ' · stopped early'}
+          </span>
+        </div>
+        <ChartContainer config={chartConfig} className="aspect-[2/1] max-h-[320px] w-full">
+          <LineChart data={data} margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="round"
+              domain={[1, history.rounds.length]}
+              allowDecimals={false}
+              label={{ value: 'Round', position: 'insideBottom', offset: -10 }}
+            />
+            <YAxis
+              tickFormatter={(value: number) => value.toFixed(2)}
+              label={{ value: 'Log-loss', angle: -90, position: 'insideLeft' }}
+            />
+            {stoppedEarly && (
+              <ReferenceLine x={history.bestRound} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+            )}
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Round ${payload?.[0]?.payload.round}`} />} />
+            <ChartLegend content={<ChartLegendContent />} verticalAlign="top" />
+            <Line type="monotone" dataKey="train" stroke="var(--color-train)" strokeWidth={2} dot={false} />
+            {hasValidation && (
+              <Line type="monotone" dataKey="validation" stroke="var(--color-validation)" strokeWidth={2} dot={false} />
+            )}
+          </LineChart>
+        </ChartContainer>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,93 @@
+import { motion } from 'framer-motion';
+import { ListChecks } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { AveragedScores, ClassificationResults } from '@/types/pipeline';
+
+interface ClassificationReportCardProps {
+  results: ClassificationResults;
+}
+
+const score = (value: number) => value.toFixed(3);
+
+export function ClassificationReportCard({ results }: ClassificationReportCardProps) {
+  const { report } = results;
+
+  const headline = [
+    { label: 'Balanced Accuracy', value: `${(results.balancedAccuracy * 100).toFixed(2)}%` },
+    { label: 'F1 (macro)', value: score(report.macro.f1) },
+    { label: 'F1 (weighted)', value: score(report.weighted.f1) },
+    { label: 'Precision (macro)', value: score(report.macro.precision) },
+    { label: 'Recall (macro)', value: score(report.macro.recall) },
+    { label: 'MCC', value: score(results.mcc) },
+    { label: 'Log-Loss', value: results.logLoss === null ? '—' : score(results.logLoss) },
+    { label: 'ROC-AUC', value: results.rocAuc === null ? '—' : score(results.rocAuc) },
+  ];
+
+  const note = results.logLoss === null
+    ? 'Log-loss and ROC-AUC need class probabilities, which this model does not produce.'
+    : results.rocAuc === null
+      ? 'ROC-AUC needs at least two classes in the test set.'
+      : null;
+
+  const averageRow = (label: string, scores: AveragedScores) => (
+    <tr className="font-semibold">
+      <td>{label}</td>
+      <td>{score(scores.precision)}</td>
+      <td>{score(scores.recall)}</td>
+      <td>{score(scores.f1)}</td>
+      <td>{results.testSize.toLocaleString()}</td>
+    </tr>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+    >
+      <Card className="p-5">
+        <div className="flex items-center gap-3 mb-4">
+          <ListChecks className="w-5 h-5 text-muted-foreground" />
+          <h3 className="font-medium">Classification Report</h3>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {headline.map(metric => (
+            <div key={metric.label} className="p-3 rounded-lg bg-secondary/50">
+              <p className="text-xs text-muted-foreground">{metric.label}</p>
+              <p className="text-lg font-semibold">{metric.value}</p>
+            </div>
+          ))}
+        </div>
+        {note && <p className="text-xs text-muted-foreground mb-4">{note}</p>}
+
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Class</th>
+                <th>Precision</th>
+                <th>Recall</th>
+                <th>F1</th>
+                <th>Support</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.perClass.map((scores, k) => (
+                <tr key={k}>
+                  <td className="max-w-40 truncate" title={results.classLabels[k]}>{results.classLabels[k]}</td>
+                  <td>{score(scores.precision)}</td>
+                  <td>{score(scores.recall)}</td>
+                  <td>{score(scores.f1)}</td>
+                  <td>{scores.support.toLocaleString()}</td>
+                </tr>
+              ))}
+              {averageRow('Macro avg', report.macro)}
+              {averageRow('Weighted avg', report.weighted)}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,144 @@
+import { motion } from 'framer-motion';
+import { BarChart3, Clock, Repeat, Target } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { ClassificationResults } from '@/types/pipeline';
+import { cn } from '@/lib/utils';
+import { ConfusionMatrix } from './ConfusionMatrix';
+import { ClassificationReportCard } from './ClassificationReportCard';
+import { ThresholdAnalysis } from './ThresholdAnalysis';
+
+interface ClassificationResultsPanelProps {
+  results: ClassificationResults;
+}
+
+export function ClassificationResultsPanel({ results }: ClassificationResultsPanelProps) {
+  const accuracyPercent = (results.accuracy * 100).toFixed(2);
+  const trainAccuracyPercent = (results.trainAccuracy * 100).toFixed(2);
+  const cvAccuracy = results.crossValidation?.summary.accuracy;
+
+  return (
+    <>
+    {/* Main Metrics */}
+    <div className={cn('grid gap-4', cvAccuracy ? 'grid-cols-2 md:grid-cols-4' : 'md:grid-cols-3')}>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card className="p-5 glow-results border-stage-results/30 text-center">
+          <div className="w-12 h-12 rounded-xl bg-stage-results/20 flex items-center justify-center mx-auto mb-3">
+            <Target className="w-6 h-6 text-stage-results" />
+          </div>
+          <p className="text-sm text-muted-foreground mb-1">Test Accuracy</p>
+          <p className="text-3xl font-bold text-stage-results">{accuracyPercent}%</p>
+        </Card>
+      </motion.div>
+
+      {cvAccuracy && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+        >
+          <Card className="p-5 text-center">
+            <div className="w-12 h-12 rounded-xl bg-secondary flex items-center justify-center mx-auto mb-3">
+              <Repeat className="w-6 h-6 text-muted-foreground" />
+            </div>
+            <p className="text-sm text-muted-foreground mb-1">CV Accuracy</p>
+            <p className="text-3xl font-bold">{(cvAccuracy.mean * 100).toFixed(2)}%</p>
+            <p className="text-xs text-muted-foreground font-mono">± {(cvAccuracy.std * 100).toFixed(2)}%</p>
+          </Card>
+        </motion.div>
+      )}
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <Card className="p-5 text-center">
+          <div className="w-12 h-12 rounded-xl bg-secondary flex items-center justify-center mx-auto mb-3">
+            <BarChart3 className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground mb-1">Train Accuracy</p>
+          <p className="text-3xl font-bold">{trainAccuracyPercent}%</p>
+        </Card>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+      >
+        <Card className="p-5 text-center">
+          <div className="w-12 h-12 rounded-xl bg-secondary flex items-center justify-center mx-auto mb-3">
+            <Clock className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground mb-1">Training Time</p>
+          <p className="text-3xl font-bold">{results.trainingTime}ms</p>
+        </Card>
+      </motion.div>
+    </div>
+
+    <ClassificationReportCard results={results} />
+
+    {results.probabilities && <ThresholdAnalysis results={results} probabilities={results.probabilities} />}
+
+    {/* Confusion Matrix */}
+    {results.confusionMatrix.length > 0 && (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4 }}
+      >
+        <Card className="p-5">
+          <h3 className="font-medium mb-4">Confusion Matrix</h3>
+          <ConfusionMatrix matrix={results.confusionMatrix} labels={results.classLabels} />
+        </Card>
+      </motion.div>
+    )}
+
+    {/* Accuracy Visualization */}
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-5">
+        <h3 className="font-medium mb-4">Model Performance</h3>
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-muted-foreground">Test Accuracy</span>
+              <span className="font-medium text-stage-results">{accuracyPercent}%</span>
+            </div>
+            <div className="h-3 bg-secondary rounded-full overflow-hidden">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${results.accuracy * 100}%` }}
+                transition={{ duration: 1, ease: 'easeOut' }}
+                className="h-full bg-stage-results rounded-full"
+              />
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-muted-foreground">Train Accuracy</span>
+              <span className="font-medium">{trainAccuracyPercent}%</span>
+            </div>
+            <div className="h-3 bg-secondary rounded-full overflow-hidden">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${results.trainAccuracy * 100}%` }}
+                transition={{ duration: 1, ease: 'easeOut', delay: 0.2 }}
+                className="h-full bg-primary rounded-full"
+              />
+            </div>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+
+    </>
+  );
+}
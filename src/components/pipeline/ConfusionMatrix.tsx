@@ -0,0 +1,86 @@
+import { cn } from '@/lib/utils';
+
+interface ConfusionMatrixProps {
+  matrix: number[][];
+  labels: string[];
+}
+
+// Actual-vs-predicted counts with real class labels; switches to compact
+// cells when there are many classes
+export function ConfusionMatrix({ matrix, labels }: ConfusionMatrixProps) {
+  const total = matrix.flat().reduce((a, b) => a + b, 0);
+  const compact = labels.length > 4;
+
+  return (
+    <div className="flex justify-center overflow-x-auto">
+      <div className="inline-block">
+        <div className="flex items-center justify-center mb-2">
+          <span className="text-xs text-muted-foreground mr-2">Predicted →</span>
+        </div>
+        <div className="flex">
+          <div className="flex flex-col justify-center mr-2">
+            <span className="text-xs text-muted-foreground transform -rotate-90 whitespace-nowrap">Actual ↓</span>
+          </div>
+          <table className="border-collapse">
+            <thead>
+              <tr>
+                <th className="w-20"></th>
+                {labels.map((label, i) => (
+                  <th
+                    key={i}
+                    className={cn(
+                      'p-2 text-xs font-medium text-muted-foreground truncate',
+                      compact ? 'w-12 max-w-12' : 'w-20 max-w-20'
+                    )}
+                    title={label}
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map((row, i) => (
+                <tr key={i}>
+                  <td
+                    className="p-2 text-xs font-medium text-muted-foreground text-right pr-4 truncate max-w-24"
+                    title={labels[i]}
+                  >
+                    {labels[i]}
+                  </td>
+                  {row.map((cell, j) => {
+                    const isDiagonal = i === j;
+                    const percentage = total > 0 ? (cell / total) * 100 : 0;
+
+                    return (
+                      <td key={j} className="p-1">
+                        <div
+                          className={cn(
+                            'rounded-lg flex flex-col items-center justify-center transition-colors',
+                            compact ? 'w-12 h-12' : 'w-20 h-16',
+                            isDiagonal
+                              ? 'bg-stage-results/20 border border-stage-results/40'
+                              : cell > 0
+                                ? 'bg-destructive/10 border border-destructive/20'
+                                : 'bg-secondary/30 border border-border'
+                          )}
+                        >
+                          <span className={cn('font-bold', compact ? 'text-sm' : 'text-xl')}>{cell}</span>
+                          {!compact && (
+                            <span className="text-xs text-muted-foreground">
+                              {percentage.toFixed(1)}%
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
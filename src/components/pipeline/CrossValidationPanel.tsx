@@ -0,0 +1,115 @@
+import { motion } from 'framer-motion';
+import { Repeat } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { CrossValidationResults } from '@/types/pipeline';
+import { ConfusionMatrix } from './ConfusionMatrix';
+
+interface CrossValidationPanelProps {
+  crossValidation: CrossValidationResults;
+  classLabels: string[] | null;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const decimal = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+
+const metricFormats: Record<string, { label: string; format: (value: number) => string }> = {
+  accuracy: { label: 'Accuracy', format: percent },
+  balancedAccuracy: { label: 'Balanced accuracy', format: percent },
+  f1Macro: { label: 'F1 (macro)', format: (value) => value.toFixed(3) },
+  r2: { label: 'R²', format: (value) => value.toFixed(3) },
+  mae: { label: 'MAE', format: decimal },
+  rmse: { label: 'RMSE', format: decimal },
+};
+
+function metricFormat(metric: string) {
+  return metricFormats[metric] ?? { label: metric, format: decimal };
+}
+
+export function CrossValidationPanel({ crossValidation, classLabels }: CrossValidationPanelProps) {
+  const { folds, summary, confusionMatrix } = crossValidation;
+  const metrics = Object.keys(summary);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.55 }}
+    >
+      <Card className="p-5">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-lg bg-stage-split/20 flex items-center justify-center">
+            <Repeat className="w-5 h-5 text-stage-split" />
+          </div>
+          <div>
+            <h3 className="font-medium">Cross-Validation</h3>
+            <p className="text-xs text-muted-foreground">
+              {folds.length}-fold{crossValidation.stratified ? ' stratified' : ''} on the training split
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 mb-4">
+          {metrics.map(metric => {
+            const { label, format } = metricFormat(metric);
+            return (
+              <div key={metric} className="px-3 py-2 rounded-lg bg-secondary/50">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="font-semibold">
+                  {format(summary[metric].mean)}
+                  <span className="text-xs text-muted-foreground font-mono"> ± {format(summary[metric].std)}</span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Fold</th>
+                <th>Train rows</th>
+                <th>Held-out rows</th>
+                {metrics.map(metric => (
+                  <th key={metric}>{metricFormat(metric).label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {folds.map((fold, i) => (
+                <tr key={i}>
+                  <td>{i + 1}</td>
+                  <td>{fold.trainSize.toLocaleString()}</td>
+                  <td>{fold.testSize.toLocaleString()}</td>
+                  {metrics.map(metric => (
+                    <td key={metric}>{metricFormat(metric).format(fold.metrics[metric])}</td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td>Mean ± std</td>
+                <td />
+                <td />
+                {metrics.map(metric => {
+                  const { format } = metricFormat(metric);
+                  return (
+                    <td key={metric}>
+                      {format(summary[metric].mean)} ± {format(summary[metric].std)}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {confusionMatrix && classLabels && (
+          <div className="mt-6">
+            <h4 className="text-sm font-medium mb-4">Aggregated Confusion Matrix (all held-out folds)</h4>
+            <ConfusionMatrix matrix={confusionMatrix} labels={classLabels} />
+          </div>
+        )}
+      </Card>
+    </motion.div>
+  );
+}
@@ -1,24 +1,27 @@
 import { useCallback, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, FileSpreadsheet, AlertCircle, Table2, ChevronRight } from 'lucide-react';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
+import { Upload, FileSpreadsheet, AlertCircle, Table2, ChevronRight, FileJson } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Dataset, DatasetColumn } from '@/types/pipeline';
+import { isMissing, parseNumeric } from '@/lib/ml-utils';
+import { readDataFile } from '@/lib/data-files';
 import { cn } from '@/lib/utils';
 
 interface DatasetUploadProps {
   dataset: Dataset | null;
   onDatasetLoaded: (dataset: Dataset) => void;
+  onImportModel: (file: File) => void;
   onNext: () => void;
 }
 
-export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploadProps) {
+export function DatasetUpload({ dataset, onDatasetLoaded, onImportModel, onNext }: DatasetUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  const totalMissing = dataset?.columns.reduce((sum, col) => sum + col.missingCount, 0) ?? 0;
+
   const processData = useCallback((data: Record<string, unknown>[], fileName: string) => {
     if (data.length === 0) {
       setError('The file appears to be empty');
@@ -27,18 +30,21 @@ export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploa
 
     const columns: DatasetColumn[] = Object.keys(data[0]).map(name => {
       const sampleValues = data.slice(0, 5).map(row => row[name] as string | number);
-      const numericCount = sampleValues.filter(v => !isNaN(Number(v)) && v !== '').length;
-      const type = numericCount >= sampleValues.length * 0.8 ? 'numeric' : 'categorical';
-      return { name, type, sampleValues };
+      // Infer the type from present values so blank cells don't make a numeric column categorical
+      const present = data.map(row => row[name]).filter(v => !isMissing(v));
+      const typeSample = present.slice(0, 5);
+      const numericCount = typeSample.filter(v => !isNaN(Number(v))).length;
+      const type = typeSample.length > 0 && numericCount >= typeSample.length * 0.8 ? 'numeric' : 'categorical';
+      const missingCount = type === 'numeric'
+        ? data.filter(row => isNaN(parseNumeric(row[name]))).length
+        : data.length - present.length;
+      return { name, type, sampleValues, missingCount };
     });
 
-    // Convert to numeric matrix (only numeric columns)
+    // Convert to numeric matrix (only numeric columns, NaN for missing values)
     const numericColumns = columns.filter(c => c.type === 'numeric');
-    const numericData = data.map(row => 
-      numericColumns.map(col => {
-        const val = Number(row[col.name]);
-        return isNaN(val) ? 0 : val;
-      })
+    const numericData = data.map(row =>
+      numericColumns.map(col => parseNumeric(row[col.name]))
     );
 
     const dataset: Dataset = {
@@ -57,35 +63,11 @@ export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploa
     setIsLoading(true);
     setError(null);
 
-    const extension = file.name.split('.').pop()?.toLowerCase();
-
     try {
-      if (extension === 'csv') {
-        Papa.parse(file, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            processData(results.data as Record<string, unknown>[], file.name);
-            setIsLoading(false);
-          },
-          error: (err) => {
-            setError(`Failed to parse CSV: ${err.message}`);
-            setIsLoading(false);
-          },
-        });
-      } else if (extension === 'xlsx' || extension === 'xls') {
-        const buffer = await file.arrayBuffer();
-        const workbook = XLSX.read(buffer, { type: 'array' });
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-        const data = XLSX.utils.sheet_to_json(firstSheet);
-        processData(data as Record<string, unknown>[], file.name);
-        setIsLoading(false);
-      } else {
-        setError('Unsupported file format. Please upload a CSV or Excel file.');
-        setIsLoading(false);
-      }
+      processData(await readDataFile(file), file.name);
     } catch (err) {
-      setError('Failed to read file. Please check the file format.');
+      setError(err instanceof Error ? err.message : 'Failed to read file. Please check the file format.');
+    } finally {
       setIsLoading(false);
     }
   }, [processData]);
@@ -102,6 +84,12 @@ export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploa
     if (file) handleFile(file);
   }, [handleFile]);
 
+  const handleModelInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportModel(file);
+    e.target.value = '';
+  }, [onImportModel]);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -170,6 +158,11 @@ export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploa
                 <h3 className="font-semibold">{dataset.fileName}</h3>
                 <p className="text-sm text-muted-foreground">
                   {dataset.rows.toLocaleString()} rows × {dataset.columns.length} columns
+                  {totalMissing > 0 && (
+                    <span className="text-stage-preprocess">
+                      {' '}· {totalMissing.toLocaleString()} missing values
+                    </span>
+                  )}
                 </p>
               </div>
             </div>
@@ -203,6 +196,11 @@ export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploa
                             {col.type}
                           </span>
                         </div>
+                        {col.missingCount > 0 && (
+                          <span className="block text-[10px] font-normal text-destructive mt-1">
+                            {col.missingCount.toLocaleString()} missing
+                          </span>
+                        )}
                       </th>
                     ))}
                     {dataset.columns.length > 6 && (
@@ -233,6 +231,20 @@ export function DatasetUpload({ dataset, onDatasetLoaded, onNext }: DatasetUploa
         </Card>
       )}
 
+      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <span>Already have a trained model?</span>
+        <label className="inline-flex items-center gap-1.5 font-medium text-foreground cursor-pointer hover:text-stage-data transition-colors">
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleModelInput}
+            className="hidden"
+          />
+          <FileJson className="w-4 h-4" />
+          Import model
+        </label>
+      </div>
+
       {error && (
         <motion.div
           initial={{ opacity: 0, y: -10 }}
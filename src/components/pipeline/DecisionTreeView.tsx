@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronRight, Download, Network } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { DecisionTreeModel, TreeNode } from '@/types/pipeline';
+import { describeSplit, formatTreeRules } from '@/lib/tree-rules';
+import { downloadFile } from '@/lib/utils';
+
+interface DecisionTreeViewProps {
+  model: DecisionTreeModel;
+}
+
+// Levels shown before deeper branches start collapsed
+const INITIAL_DEPTH = 3;
+
+const CLASS_COLORS = [
+  'hsl(var(--stage-data))',
+  'hsl(var(--stage-preprocess))',
+  'hsl(var(--stage-model))',
+  'hsl(var(--stage-results))',
+  'hsl(var(--destructive))',
+  'hsl(var(--muted-foreground))',
+];
+
+const classColor = (index: number) => CLASS_COLORS[index % CLASS_COLORS.length];
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumSignificantDigits: 4 });
+
+const isLeaf = (node: TreeNode) => node.prediction !== undefined;
+
+function treeShape(node: TreeNode): { nodes: number; leaves: number; depth: number } {
+  if (isLeaf(node)) return { nodes: 1, leaves: 1, depth: 0 };
+  const left = treeShape(node.left!);
+  const right = treeShape(node.right!);
+  return {
+    nodes: 1 + left.nodes + right.nodes,
+    leaves: left.leaves + right.leaves,
+    depth: 1 + Math.max(left.depth, right.depth),
+  };
+}
+
+// Internal nodes at the given depth, collapsed so the first levels fit on screen
+function nodesAtDepth(node: TreeNode, depth: number): TreeNode[] {
+  if (isLeaf(node)) return [];
+  if (depth === 0) return [node];
+  return [...nodesAtDepth(node.left!, depth - 1), ...nodesAtDepth(node.right!, depth - 1)];
+}
+
+function ClassDistribution({ counts, classLabels }: { counts: number[]; classLabels: string[] }) {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total === 0) return null;
+  return (
+    <div className="flex h-1.5 w-32 overflow-hidden rounded-full bg-secondary">
+      {counts.map((count, k) => count > 0 && (
+        <div
+          key={k}
+          style={{ width: `${(count / total) * 100}%`, backgroundColor: classColor(k) }}
+          title={`${classLabels[k] ?? k}: ${count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface TreeBranchProps {
+  node: TreeNode;
+  condition: string;
+  model: DecisionTreeModel;
+  collapsed: Set<TreeNode>;
+  onToggle: (node: TreeNode) => void;
+}
+
+function TreeBranch({ node, condition, model, collapsed, onToggle }: TreeBranchProps) {
+  const { classLabels, taskType } = model;
+  const leaf = isLeaf(node);
+  const open = !leaf && !collapsed.has(node);
+  const split = leaf ? null : describeSplit(node, model.preprocessing);
+  const Chevron = open ? ChevronDown : ChevronRight;
+
+  return (
+    <li>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 py-1">
+        <button
+          type="button"
+          disabled={leaf}
+          onClick={() => onToggle(node)}
+          className="flex items-center gap-1 text-sm font-medium hover:text-foreground disabled:cursor-default"
+        >
+          {leaf ? <span className="w-4" /> : <Chevron className="w-4 h-4 text-muted-foreground" />}
+          <span className="font-mono">{condition}</span>
+        </button>
+        {leaf && (
+          <span className="px-2 py-0.5 rounded-full bg-stage-results/20 text-stage-results text-xs font-medium">
+            {classLabels ? classLabels[node.prediction!] ?? node.prediction : formatValue(node.prediction!)}
+          </span>
+        )}
+        {node.samples !== undefined && (
+          <span className="text-xs text-muted-foreground">
+            {node.samples.toLocaleString()} sample{node.samples === 1 ? '' : 's'}
+            {node.impurity !== undefined &&
+              ` · ${taskType === 'classification' ? 'gini' : 'variance'} ${formatValue(node.impurity)}`}
+            {taskType === 'regression' && !leaf && node.value && ` · mean ${formatValue(node.value[0])}`}
+          </span>
+        )}
+        {classLabels && node.value && <ClassDistribution counts={node.value} classLabels={classLabels} />}
+        {!leaf && !open && (
+          <span className="text-xs text-muted-foreground">{treeShape(node).leaves} leaves hidden</span>
+        )}
+      </div>
+      {open && split && (
+        <ul className="ml-2 pl-4 border-l border-border">
+          <TreeBranch node={node.left!} condition={split.left} model={model} collapsed={collapsed} onToggle={onToggle} />
+          <TreeBranch node={node.right!} condition={split.right} model={model} collapsed={collapsed} onToggle={onToggle} />
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function DecisionTreeView({ model }: DecisionTreeViewProps) {
+  const { tree, classLabels } = model;
+  const shape = useMemo(() => treeShape(tree), [tree]);
+  const [view, setView] = useState<'diagram' | 'rules'>('diagram');
+  const [collapsed, setCollapsed] = useState(() => new Set(nodesAtDepth(tree, INITIAL_DEPTH)));
+  const rules = useMemo(() => (view === 'rules' ? formatTreeRules(model) : ''), [model, view]);
+
+  // A promoted or imported model brings a different tree
+  useEffect(() => setCollapsed(new Set(nodesAtDepth(tree, INITIAL_DEPTH))), [tree]);
+
+  const handleToggle = (node: TreeNode) =>
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(node)) next.add(node);
+      return next;
+    });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-5 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Network className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <h3 className="font-medium">Decision Tree</h3>
+              <p className="text-xs text-muted-foreground">
+                {shape.nodes} nodes · {shape.leaves} leaves · depth {shape.depth} · thresholds on the original
+                column scales
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant={view === 'diagram' ? 'secondary' : 'ghost'} onClick={() => setView('diagram')}>
+              Diagram
+            </Button>
+            <Button size="sm" variant={view === 'rules' ? 'secondary' : 'ghost'} onClick={() => setView('rules')}>
+              Export rules
+            </Button>
+          </div>
+        </div>
+
+        {view === 'diagram' ? (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              {classLabels ? (
+                <div className="flex flex-wrap gap-3">
+                  {classLabels.map((label, k) => (
+                    <span key={label} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: classColor(k) }} />
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <span />
+              )}
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setCollapsed(new Set())}>
+                  Expand all
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setCollapsed(new Set([tree]))}>
+                  Collapse all
+                </Button>
+              </div>
+            </div>
+            <ul className="max-h-[32rem] overflow-auto rounded-lg border border-border p-3">
+              <TreeBranch node={tree} condition="All training rows" model={model} collapsed={collapsed} onToggle={handleToggle} />
+            </ul>
+            {tree.samples === undefined && (
+              <p className="text-xs text-muted-foreground">
+                This model was saved before trees recorded sample counts, so only the splits and predictions are shown.
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <pre className="max-h-[32rem] overflow-auto rounded-lg border border-border bg-secondary/30 p-3 text-xs font-mono whitespace-pre-wrap">
+              {rules}
+            </pre>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                One rule per leaf; repeated splits on a column along a path are merged into a single condition.
+              </p>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => downloadFile(`${model.targetColumn}-tree-rules.txt`, rules, 'text/plain')}
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </Button>
+            </div>
+          </>
+        )}
+      </Card>
+    </motion.div>
+  );
+}
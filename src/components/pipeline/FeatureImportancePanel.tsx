@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ListOrdered } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, ErrorBar, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { FeatureImportanceResults, TaskType } from '@/types/pipeline';
+import { TUNING_METRICS } from '@/lib/tuning';
+
+interface FeatureImportancePanelProps {
+  importance: FeatureImportanceResults;
+  taskType: TaskType;
+}
+
+type ImportanceView = 'permutation' | 'impurity' | 'coefficients';
+
+interface ImportanceBar {
+  feature: string;
+  value: number;
+  std?: number;
+}
+
+// Longer rankings are cut to the top features
+const MAX_BARS = 20;
+
+const chartConfig = {
+  value: { label: 'Importance', color: 'hsl(var(--stage-model))' },
+  positive: { label: 'Raises the odds', color: 'hsl(var(--stage-results))' },
+  negative: { label: 'Lowers the odds', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const VIEW_LABELS: Record<ImportanceView, string> = {
+  permutation: 'Permutation',
+  impurity: 'Impurity (Gini)',
+  coefficients: 'Coefficients',
+};
+
+export function FeatureImportancePanel({ importance, taskType }: FeatureImportancePanelProps) {
+  const { featureColumns, permutation, impurity, coefficients } = importance;
+  const views: ImportanceView[] = [
+    'permutation',
+    ...(impurity ? ['impurity' as const] : []),
+    ...(coefficients ? ['coefficients' as const] : []),
+  ];
+  const [selectedView, setView] = useState<ImportanceView>('permutation');
+  const [selectedClass, setClassIndex] = useState(0);
+  // A promoted model may lack the view or class picked for the previous one
+  const view = views.includes(selectedView) ? selectedView : 'permutation';
+  const classIndex = Math.min(selectedClass, (coefficients?.classes.length ?? 1) - 1);
+  const metricLabel = TUNING_METRICS[taskType].find(m => m.key === permutation.metric)?.label ?? permutation.metric;
+
+  const bars: ImportanceBar[] =
+    view === 'coefficients' && coefficients
+      ? coefficients.featureNames.map((feature, j) => ({ feature, value: coefficients.standardized[classIndex][j] }))
+      : view === 'impurity' && impurity
+        ? featureColumns.map((feature, i) => ({ feature, value: impurity[i] }))
+        : featureColumns.map((feature, i) => ({ feature, value: permutation.mean[i], std: permutation.std[i] }));
+  // Coefficients rank by size whatever their sign
+  const ranked = [...bars]
+    .sort((a, b) => (view === 'coefficients' ? Math.abs(b.value) - Math.abs(a.value) : b.value - a.value))
+    .slice(0, MAX_BARS);
+
+  const description = {
+    permutation: `Drop in test ${metricLabel} when a column's values are shuffled, mean ± std over ${permutation.repeats} shuffles`,
+    impurity: 'Share of the total impurity decrease from splits on each column, measured while growing the trees',
+    coefficients: 'Weights times the standard deviation of each feature; odds ratios are per one-standard-deviation increase',
+  }[view];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-5 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <ListOrdered className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <h3 className="font-medium">Feature Importance</h3>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+          </div>
+          {views.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {views.map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={view === option ? 'secondary' : 'ghost'}
+                  onClick={() => setView(option)}
+                >
+                  {VIEW_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {view === 'coefficients' && coefficients && coefficients.classes.length > 1 && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="coefficient-class" className="text-sm">Class</Label>
+            <Select value={String(classIndex)} onValueChange={(value) => setClassIndex(Number(value))}>
+              <SelectTrigger id="coefficient-class" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {coefficients.classes.map((label, k) => (
+                  <SelectItem key={label} value={String(k)}>{label} vs rest</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto w-full"
+          style={{ height: 40 + ranked.length * 28 }}
+        >
+          <BarChart data={ranked} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" tickFormatter={formatValue} />
+            <YAxis type="category" dataKey="feature" width={140} interval={0} />
+            <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, _, item) => {
+                    const v = Number(value);
+                    if (view === 'coefficients') {
+                      return `Standardized coefficient ${formatValue(v)} · odds ratio ×${formatValue(Math.exp(v))}`;
+                    }
+                    if (view === 'impurity') return `${(v * 100).toFixed(1)}% of the impurity decrease`;
+                    return `${metricLabel} drop ${formatValue(v)} ± ${formatValue(item.payload.std)}`;
+                  }}
+                />
+              }
+            />
+            <Bar dataKey="value" fill="var(--color-value)" radius={3}>
+              {view === 'coefficients' &&
+                ranked.map(bar => (
+                  <Cell key={bar.feature} fill={bar.value >= 0 ? 'var(--color-positive)' : 'var(--color-negative)'} />
+                ))}
+              {view === 'permutation' && <ErrorBar dataKey="std" direction="x" stroke="hsl(var(--muted-foreground))" />}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+
+        {view === 'coefficients' && coefficients && (
+          <div className="max-h-64 overflow-auto rounded-lg border border-border">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Feature</th>
+                  <th>Std. coefficient</th>
+                  <th>Odds ratio (per SD)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.map(bar => (
+                  <tr key={bar.feature}>
+                    <td className="font-mono">{bar.feature}</td>
+                    <td className={bar.value >= 0 ? 'text-stage-results' : 'text-destructive'}>
+                      {bar.value >= 0 ? '+' : ''}{formatValue(bar.value)}
+                    </td>
+                    <td>×{formatValue(Math.exp(bar.value))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {bars.length > MAX_BARS && `Top ${MAX_BARS} of ${bars.length}. `}
+          {view === 'permutation'
+            ? 'Near-zero or negative values mean the model barely uses the column; correlated columns can share credit.'
+            : view === 'coefficients'
+              ? 'Coefficients are on the encoded features, so each category of a one-hot column has its own.'
+              : 'Impurity importance comes from the training data and can favour columns with many distinct values.'}
+        </p>
+      </Card>
+    </motion.div>
+  );
+}
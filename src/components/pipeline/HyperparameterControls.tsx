@@ -0,0 +1,98 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HYPERPARAMETER_CONTROLS } from '@/lib/hyperparameters';
+import { ModelType } from '@/types/pipeline';
+import { cn } from '@/lib/utils';
+
+interface HyperparameterControlsProps {
+  modelType: ModelType;
+  values: Record<string, number | string>;
+  errors: Record<string, string>;
+  onChange: (key: string, value: number | string) => void;
+}
+
+export function HyperparameterControls({ modelType, values, errors, onChange }: HyperparameterControlsProps) {
+  const controls = HYPERPARAMETER_CONTROLS[modelType];
+  if (controls.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This model has no hyperparameters to tune.
+      </p>
+    );
+  }
+
+  return (
+    // Keep clicks on the controls from re-selecting the surrounding card
+    <div className="grid sm:grid-cols-2 gap-4" onClick={(e) => e.stopPropagation()}>
+      {controls.map(control => {
+        const id = `hp-${modelType}-${control.key}`;
+        const value = values[control.key];
+        const disabled = control.isActive ? !control.isActive(values) : false;
+        const error = errors[control.key];
+
+        return (
+          <div key={control.key} className={cn('space-y-1.5', disabled && 'opacity-50')}>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={id}>{control.label}</Label>
+              {control.kind === 'slider' && (
+                <span className="text-xs font-mono text-stage-model">{value}</span>
+              )}
+            </div>
+
+            {control.kind === 'slider' && (
+              <Slider
+                id={id}
+                value={[value as number]}
+                onValueChange={([val]) => onChange(control.key, val)}
+                min={control.min}
+                max={control.max}
+                step={control.step}
+                disabled={disabled}
+                className="py-2"
+              />
+            )}
+
+            {control.kind === 'number' && (
+              <Input
+                id={id}
+                type="number"
+                value={Number.isNaN(value) ? '' : value}
+                min={control.min}
+                max={control.max}
+                step={control.step}
+                disabled={disabled}
+                onChange={(e) => onChange(control.key, e.target.valueAsNumber)}
+                className={cn(error && 'border-destructive')}
+              />
+            )}
+
+            {control.kind === 'select' && (
+              <Select
+                value={value as string}
+                onValueChange={(val) => onChange(control.key, val)}
+                disabled={disabled}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {control.options.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <p className={cn('text-[11px]', error ? 'text-destructive' : 'text-muted-foreground')}>
+              {error ?? control.description}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
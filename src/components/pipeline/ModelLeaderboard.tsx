@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, ArrowUpDown, RotateCcw, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  ClassificationResults,
+  ComparisonEntry,
+  RegressionResults,
+  TaskType,
+  TrainedModel,
+  TrainingResults,
+} from '@/types/pipeline';
+import { MODEL_NAMES, PREPROCESSING_NAMES } from '@/lib/pipeline';
+import { cn } from '@/lib/utils';
+
+interface ModelLeaderboardProps {
+  entries: ComparisonEntry[];
+  taskType: TaskType;
+  activeModel: TrainedModel | null;
+  onPromote: (entry: ComparisonEntry) => void;
+  onReset: () => void;
+}
+
+interface LeaderboardColumn {
+  key: string;
+  label: string;
+  higherIsBetter: boolean;
+  value: (results: TrainingResults) => number | null;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const score = (value: number) => value.toFixed(3);
+const decimal = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+const seconds = (ms: number) => `${(ms / 1000).toFixed(2)} s`;
+
+const classification = (pick: (results: ClassificationResults) => number | null) =>
+  (results: TrainingResults) => (results.taskType === 'classification' ? pick(results) : null);
+const regression = (pick: (results: RegressionResults) => number) =>
+  (results: TrainingResults) => (results.taskType === 'regression' ? pick(results) : null);
+const cvMean = (results: TrainingResults, metric: string) => results.crossValidation?.summary[metric]?.mean ?? null;
+
+const classificationColumns: LeaderboardColumn[] = [
+  { key: 'accuracy', label: 'Accuracy', higherIsBetter: true, format: percent, value: classification(r => r.accuracy) },
+  { key: 'balancedAccuracy', label: 'Balanced Acc.', higherIsBetter: true, format: percent, value: classification(r => r.balancedAccuracy) },
+  { key: 'f1', label: 'F1 (macro)', higherIsBetter: true, format: score, value: classification(r => r.report.macro.f1) },
+  { key: 'mcc', label: 'MCC', higherIsBetter: true, format: score, value: classification(r => r.mcc) },
+  { key: 'rocAuc', label: 'ROC-AUC', higherIsBetter: true, format: score, value: classification(r => r.rocAuc) },
+  { key: 'logLoss', label: 'Log-Loss', higherIsBetter: false, format: score, value: classification(r => r.logLoss) },
+  { key: 'cvAccuracy', label: 'CV Accuracy', higherIsBetter: true, format: percent, value: r => cvMean(r, 'accuracy') },
+];
+
+const regressionColumns: LeaderboardColumn[] = [
+  { key: 'r2', label: 'R²', higherIsBetter: true, format: score, value: regression(r => r.r2) },
+  { key: 'mae', label: 'MAE', higherIsBetter: false, format: decimal, value: regression(r => r.mae) },
+  { key: 'rmse', label: 'RMSE', higherIsBetter: false, format: decimal, value: regression(r => r.rmse) },
+  { key: 'cvR2', label: 'CV R²', higherIsBetter: true, format: score, value: r => cvMean(r, 'r2') },
+];
+
+const timeColumn: LeaderboardColumn = {
+  key: 'trainingTime',
+  label: 'Training Time',
+  higherIsBetter: false,
+  format: seconds,
+  value: r => r.trainingTime,
+};
+
+export function ModelLeaderboard({ entries, taskType, activeModel, onPromote, onReset }: ModelLeaderboardProps) {
+  const columns = useMemo(() => {
+    const metrics = taskType === 'classification' ? classificationColumns : regressionColumns;
+    // Leave out metrics no entry has a value for, e.g. CV when it was off
+    const available = metrics.filter(column =>
+      entries.some(entry => entry.results && column.value(entry.results) !== null)
+    );
+    return [...available, timeColumn];
+  }, [entries, taskType]);
+
+  const [sortKey, setSortKey] = useState(columns[0].key);
+  const [descending, setDescending] = useState(columns[0].higherIsBetter);
+  const sortColumn = columns.find(c => c.key === sortKey) ?? columns[0];
+
+  // Failed runs and missing values always sort last
+  const rows = useMemo(() => {
+    const valueOf = (entry: ComparisonEntry) => (entry.results ? sortColumn.value(entry.results) : null);
+    return [...entries].sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      if (va === null || vb === null) return (va === null ? 1 : 0) - (vb === null ? 1 : 0);
+      return descending ? vb - va : va - vb;
+    });
+  }, [entries, sortColumn, descending]);
+
+  const best = useMemo(() => {
+    const values: Record<string, number> = {};
+    columns.forEach(column => {
+      const scores = entries
+        .map(entry => (entry.results ? column.value(entry.results) : null))
+        .filter((value): value is number => value !== null);
+      if (scores.length > 1) values[column.key] = column.higherIsBetter ? Math.max(...scores) : Math.min(...scores);
+    });
+    return values;
+  }, [entries, columns]);
+
+  const handleSort = (column: LeaderboardColumn) => {
+    if (column.key === sortKey) {
+      setDescending(prev => !prev);
+    } else {
+      setSortKey(column.key);
+      setDescending(column.higherIsBetter);
+    }
+  };
+
+  const failed = entries.filter(entry => entry.error !== null).length;
+  const comparesPreprocessing = new Set(entries.map(entry => entry.preprocessing)).size > 1;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      <div className="text-center mb-8">
+        <motion.div
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ type: 'spring', duration: 0.5 }}
+          className="w-16 h-16 rounded-full bg-stage-results/20 flex items-center justify-center mx-auto mb-4"
+        >
+          <Trophy className="w-8 h-8 text-stage-results" />
+        </motion.div>
+        <h2 className="text-2xl font-semibold mb-2">Model Leaderboard</h2>
+        <p className="text-muted-foreground">
+          {entries.length} run{entries.length === 1 ? '' : 's'} on the same train/test split
+          {failed > 0 && ` · ${failed} failed`}. Promote a row to explore it in detail.
+        </p>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <Card className="p-5">
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Model</th>
+                  {comparesPreprocessing && <th>Preprocessing</th>}
+                  {columns.map(column => {
+                    const SortIcon = column.key !== sortKey ? ArrowUpDown : descending ? ArrowDown : ArrowUp;
+                    return (
+                      <th key={column.key}>
+                        <button
+                          type="button"
+                          onClick={() => handleSort(column)}
+                          className={cn(
+                            'inline-flex items-center gap-1 whitespace-nowrap hover:text-foreground',
+                            column.key === sortKey && 'text-foreground'
+                          )}
+                        >
+                          {column.label}
+                          <SortIcon className="w-3 h-3" />
+                        </button>
+                      </th>
+                    );
+                  })}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((entry, rank) => {
+                  const isActive = entry.model !== null && entry.model === activeModel;
+                  return (
+                    <tr key={`${entry.modelType}-${entry.preprocessing}`} className={cn(isActive && 'bg-stage-results/10')}>
+                      <td className="font-mono">{entry.results ? rank + 1 : '—'}</td>
+                      <td className="whitespace-nowrap font-medium">{MODEL_NAMES[entry.modelType]}</td>
+                      {comparesPreprocessing && (
+                        <td className="whitespace-nowrap">{PREPROCESSING_NAMES[entry.preprocessing]}</td>
+                      )}
+                      {entry.results ? (
+                        columns.map(column => {
+                          const value = column.value(entry.results);
+                          return (
+                            <td
+                              key={column.key}
+                              className={cn(value !== null && value === best[column.key] && 'font-semibold text-stage-results')}
+                            >
+                              {value === null ? '—' : column.format(value)}
+                            </td>
+                          );
+                        })
+                      ) : (
+                        <td colSpan={columns.length} className="text-destructive text-xs">
+                          Failed: {entry.error}
+                        </td>
+                      )}
+                      <td className="text-right">
+                        {isActive ? (
+                          <span className="px-2 py-0.5 rounded-full bg-stage-results/20 text-stage-results text-xs font-medium">
+                            Active
+                          </span>
+                        ) : (
+                          <Button size="sm" variant="outline" disabled={!entry.results} onClick={() => onPromote(entry)}>
+                            Promote
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Click a column to sort. The best value in each column is highlighted; all scores are on the test set
+            unless prefixed with CV.
+          </p>
+        </Card>
+      </motion.div>
+
+      <div className="flex justify-center gap-3 pt-4">
+        <Button onClick={onReset} variant="outline" className="gap-2">
+          <RotateCcw className="w-4 h-4" />
+          Start New Pipeline
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,26 +1,87 @@
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Brain, ChevronLeft, Play, TreeDeciduous, TrendingUp } from 'lucide-react';
+import {
+  BarChart3,
+  Brain,
+  ChevronLeft,
+  Dices,
+  GitCompare,
+  Layers,
+  LineChart,
+  Network,
+  Play,
+  Search,
+  Sigma,
+  Square,
+  SplitSquareHorizontal,
+  TreeDeciduous,
+  Trees,
+  TrendingUp,
+  Users,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { ModelType } from '@/types/pipeline';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import {
+  ComparisonCandidate,
+  ModelHyperparameters,
+  ModelType,
+  PreprocessingMethod,
+  SearchDimension,
+  TaskType,
+  TrainingProgress,
+  TuningConfig,
+} from '@/types/pipeline';
+import { validateHyperparameters } from '@/lib/hyperparameters';
+import { PREPROCESSING_NAMES } from '@/lib/pipeline';
+import { TUNING_METRICS, validateTuning } from '@/lib/tuning';
 import { cn } from '@/lib/utils';
+import { HyperparameterControls } from './HyperparameterControls';
+import { SearchSpaceEditor } from './SearchSpaceEditor';
 
 interface ModelSelectionProps {
+  taskType: TaskType;
   model: ModelType;
   onModelChange: (model: ModelType) => void;
+  hyperparameters: ModelHyperparameters;
+  onHyperparameterChange: (key: string, value: number | string) => void;
   onTrain: () => void;
+  // Used for every candidate unless preprocessing methods are compared too
+  preprocessing: PreprocessingMethod;
+  onCompare: (candidates: ComparisonCandidate[]) => void;
+  onTune: (tuning: TuningConfig) => void;
+  // Cross-validation folds used to score every tuning trial
+  folds: number;
   onBack: () => void;
   isProcessing: boolean;
+  progress: TrainingProgress | null;
+  onCancel: () => void;
 }
 
-const models: { id: ModelType; name: string; description: string; icon: React.ElementType; details: string[] }[] = [
+const phaseLabels: Record<TrainingProgress['phase'], string> = {
+  preprocessing: 'Preparing data',
+  training: 'Training',
+  evaluating: 'Evaluating',
+};
+
+const models: {
+  id: ModelType;
+  name: string;
+  description: string;
+  icon: React.ElementType;
+  tasks: TaskType[];
+  details: string[];
+}[] = [
   {
     id: 'logistic',
     name: 'Logistic Regression',
-    description: 'A linear model for binary classification using the logistic function',
+    description: 'A linear model using the logistic function, one-vs-rest for multiple classes',
     icon: TrendingUp,
+    tasks: ['classification'],
     details: [
-      'Best for: Binary classification problems',
+      'Best for: Binary and multiclass classification problems',
       'Fast training and prediction',
       'Provides probability outputs',
       'Works well with linearly separable data',
@@ -28,19 +89,210 @@ const models: { id: ModelType; name: string; description: string; icon: React.El
   },
   {
     id: 'decision_tree',
-    name: 'Decision Tree Classifier',
+    name: 'Decision Tree',
     description: 'A tree-based model that learns decision rules from features',
     icon: TreeDeciduous,
+    tasks: ['classification', 'regression'],
     details: [
       'Best for: Non-linear decision boundaries',
       'Easy to interpret and visualize',
-      'Handles both numerical and categorical data',
+      'Gini splits for classes, variance reduction for values',
       'No feature scaling required',
     ],
   },
+  {
+    id: 'random_forest',
+    name: 'Random Forest',
+    description: 'An ensemble of decision trees grown on bootstrap samples, combined by voting',
+    icon: Trees,
+    tasks: ['classification', 'regression'],
+    details: [
+      'Best for: Accurate results with little tuning',
+      'Random feature subsets keep the trees diverse',
+      'Vote shares give class probabilities',
+      'Out-of-bag rows provide a built-in validation score',
+    ],
+  },
+  {
+    id: 'gradient_boosting',
+    name: 'Gradient Boosting',
+    description: 'Shallow trees added one round at a time, each correcting the errors so far',
+    icon: Layers,
+    tasks: ['classification'],
+    details: [
+      'Best for: Top accuracy on tabular data',
+      'Optimizes the log-loss with Newton-step leaves',
+      'Row subsampling and a learning rate curb overfitting',
+      'Stops early when the validation loss stops improving',
+    ],
+  },
+  {
+    id: 'knn',
+    name: 'k-Nearest Neighbours',
+    description: 'Predicts from the k training rows closest to each new row',
+    icon: Users,
+    tasks: ['classification', 'regression'],
+    details: [
+      'Best for: Small datasets with local structure',
+      'No training step; the training rows are the model',
+      'Euclidean, Manhattan or cosine distance',
+      'Scale the features so each counts equally',
+    ],
+  },
+  {
+    id: 'gaussian_nb',
+    name: 'Gaussian Naive Bayes',
+    description: 'Bayes\' rule with a normal distribution per feature and class',
+    icon: BarChart3,
+    tasks: ['classification'],
+    details: [
+      'Best for: Quick baselines on numeric features',
+      'Trains in a single pass over the data',
+      'Provides probability outputs',
+      'Assumes features are independent within a class',
+    ],
+  },
+  {
+    id: 'categorical_nb',
+    name: 'Categorical Naive Bayes',
+    description: 'Bayes\' rule with smoothed category frequencies per feature and class',
+    icon: Dices,
+    tasks: ['classification'],
+    details: [
+      'Best for: Mostly categorical features',
+      'Continuous features are cut into quantile bins',
+      'Laplace smoothing handles unseen categories',
+      'Assumes features are independent within a class',
+    ],
+  },
+  {
+    id: 'linear_svm',
+    name: 'Linear SVM',
+    description: 'A maximum-margin linear classifier trained on the hinge loss with SGD',
+    icon: SplitSquareHorizontal,
+    tasks: ['classification'],
+    details: [
+      'Best for: Roughly linearly separable classes',
+      'Only rows near the boundary shape the model',
+      'L2 regularization controls the margin width',
+      'One-vs-rest for multiple classes',
+    ],
+  },
+  {
+    id: 'mlp',
+    name: 'Neural Network (MLP)',
+    description: 'A small fully connected network trained with mini-batch Adam',
+    icon: Network,
+    tasks: ['classification', 'regression'],
+    details: [
+      'Best for: Mildly non-linear patterns',
+      'Configurable depth, width and activation',
+      'Softmax outputs give class probabilities',
+      'Benefits from scaled features',
+    ],
+  },
+  {
+    id: 'linear',
+    name: 'Linear Regression',
+    description: 'Ordinary least squares fit of a straight line through the data',
+    icon: LineChart,
+    tasks: ['regression'],
+    details: [
+      'Best for: Roughly linear relationships',
+      'Exact closed-form solution',
+      'Coefficients are directly interpretable',
+      'Sensitive to outliers and collinear features',
+    ],
+  },
+  {
+    id: 'ridge',
+    name: 'Ridge Regression',
+    description: 'Linear regression with an L2 penalty that shrinks the coefficients',
+    icon: Sigma,
+    tasks: ['regression'],
+    details: [
+      'Best for: Many or correlated features',
+      'Reduces overfitting compared to plain OLS',
+      'Stable when features are collinear',
+      'Works best with scaled features',
+    ],
+  },
 ];
 
-export function ModelSelection({ model, onModelChange, onTrain, onBack, isProcessing }: ModelSelectionProps) {
+export function ModelSelection({
+  taskType,
+  model,
+  onModelChange,
+  hyperparameters,
+  onHyperparameterChange,
+  onTrain,
+  preprocessing,
+  onCompare,
+  onTune,
+  folds,
+  onBack,
+  isProcessing,
+  progress,
+  onCancel,
+}: ModelSelectionProps) {
+  const [mode, setMode] = useState<'train' | 'compare' | 'tune'>('train');
+  const [compareModels, setCompareModels] = useState<ModelType[]>([model]);
+  const [comparePreprocessing, setComparePreprocessing] = useState(false);
+  const [searchSpaces, setSearchSpaces] = useState<Partial<Record<ModelType, SearchDimension[]>>>({});
+  const [searchSettings, setSearchSettings] = useState<Omit<TuningConfig, 'dimensions'>>({
+    strategy: 'grid',
+    budget: 20,
+    metric: TUNING_METRICS[taskType][0].key,
+  });
+  const compareMode = mode === 'compare';
+
+  const availableModels = models.filter(m => m.tasks.includes(taskType));
+  const hyperparameterErrors = validateHyperparameters(model, hyperparameters);
+
+  const comparedModels = availableModels.filter(m => compareModels.includes(m.id));
+  const preprocessingMethods = comparePreprocessing
+    ? (Object.keys(PREPROCESSING_NAMES) as PreprocessingMethod[])
+    : [preprocessing];
+  const invalidCompared = comparedModels.filter(m => Object.keys(validateHyperparameters(m.id, hyperparameters)).length > 0);
+  const runCount = comparedModels.length * preprocessingMethods.length;
+
+  // The metric list depends on the task type, which can change under us
+  const tuning: TuningConfig = {
+    ...searchSettings,
+    metric: TUNING_METRICS[taskType].some(m => m.key === searchSettings.metric)
+      ? searchSettings.metric
+      : TUNING_METRICS[taskType][0].key,
+    dimensions: searchSpaces[model] ?? [],
+  };
+  const tuningErrors = validateTuning(model, taskType, tuning);
+
+  const hasInvalidHyperparameters = compareMode
+    ? invalidCompared.length > 0
+    : Object.keys(hyperparameterErrors).length > 0;
+  const canRun = compareMode
+    ? runCount > 0 && !hasInvalidHyperparameters
+    : !hasInvalidHyperparameters && (mode !== 'tune' || tuningErrors.length === 0);
+
+  const handleTuningChange = ({ dimensions, ...settings }: TuningConfig) => {
+    setSearchSettings(settings);
+    setSearchSpaces(prev => ({ ...prev, [model]: dimensions }));
+  };
+
+  const toggleCompared = (id: ModelType) =>
+    setCompareModels(prev => (prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]));
+
+  const handleCompare = () =>
+    onCompare(
+      comparedModels.flatMap(m => preprocessingMethods.map(method => ({ modelType: m.id, preprocessing: method })))
+    );
+
+  // Switching task type can leave a model selected that does not support it
+  useEffect(() => {
+    if (!availableModels.some(m => m.id === model)) {
+      onModelChange(availableModels[0].id);
+    }
+  }, [availableModels, model, onModelChange]);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -54,10 +306,93 @@ export function ModelSelection({ model, onModelChange, onTrain, onBack, isProces
         </p>
       </div>
 
+      {/* Compare Mode */}
+      <Card className="p-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-secondary flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <div>
+              <h3 className="font-medium">Compare Models</h3>
+              <p className="text-xs text-muted-foreground">
+                Train several models on the same split and rank them on a leaderboard
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={compareMode}
+            onCheckedChange={(checked) => setMode(checked ? 'compare' : 'train')}
+            aria-label="Compare models"
+          />
+        </div>
+        {compareMode && (
+          <div className="flex flex-wrap items-center justify-between gap-4 pt-4 mt-4 border-t border-border">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="compare-preprocessing"
+                checked={comparePreprocessing}
+                onCheckedChange={setComparePreprocessing}
+              />
+              <div>
+                <Label htmlFor="compare-preprocessing">Also compare preprocessing methods</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {comparePreprocessing
+                    ? 'Every model runs with no scaling, the standard scaler and the min-max scaler'
+                    : `Every model runs with the ${PREPROCESSING_NAMES[preprocessing].toLowerCase()}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setCompareModels(availableModels.map(m => m.id))}>
+                Select all
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCompareModels([])}>
+                Clear
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Tuning Mode */}
+      <Card className="p-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-secondary flex items-center justify-center">
+              <Search className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <div>
+              <h3 className="font-medium">Tune Hyperparameters</h3>
+              <p className="text-xs text-muted-foreground">
+                Search the selected model's hyperparameters with cross-validation and keep the best
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={mode === 'tune'}
+            onCheckedChange={(checked) => setMode(checked ? 'tune' : 'train')}
+            aria-label="Tune hyperparameters"
+          />
+        </div>
+        {mode === 'tune' && (
+          <div className="pt-4 mt-4 border-t border-border">
+            <SearchSpaceEditor
+              modelType={model}
+              taskType={taskType}
+              tuning={tuning}
+              onChange={handleTuningChange}
+              folds={folds}
+              errors={tuningErrors}
+            />
+          </div>
+        )}
+      </Card>
+
       <div className="grid md:grid-cols-2 gap-4">
-        {models.map((m, index) => {
+        {availableModels.map((m, index) => {
           const Icon = m.icon;
-          const isSelected = model === m.id;
+          const isSelected = compareMode ? compareModels.includes(m.id) : model === m.id;
 
           return (
             <motion.div
@@ -73,7 +408,7 @@ export function ModelSelection({ model, onModelChange, onTrain, onBack, isProces
                     ? 'border-stage-model glow-model bg-stage-model/5'
                     : 'border-transparent hover:border-border hover:bg-secondary/30'
                 )}
-                onClick={() => onModelChange(m.id)}
+                onClick={() => (compareMode ? toggleCompared(m.id) : onModelChange(m.id))}
               >
                 <div className="flex items-start gap-4 mb-4">
                   <div
@@ -117,6 +452,18 @@ export function ModelSelection({ model, onModelChange, onTrain, onBack, isProces
                     </div>
                   ))}
                 </div>
+
+                {isSelected && !compareMode && (
+                  <div className="pt-4 mt-4 border-t border-border space-y-3">
+                    <h4 className="text-sm font-medium">Hyperparameters</h4>
+                    <HyperparameterControls
+                      modelType={m.id}
+                      values={hyperparameters[m.id] as Record<string, number | string>}
+                      errors={hyperparameterErrors}
+                      onChange={onHyperparameterChange}
+                    />
+                  </div>
+                )}
               </Card>
             </motion.div>
           );
@@ -131,31 +478,78 @@ export function ModelSelection({ model, onModelChange, onTrain, onBack, isProces
               <Brain className="w-6 h-6 text-stage-model" />
             </div>
             <div>
-              <h3 className="font-semibold">Ready to Train</h3>
+              <h3 className="font-semibold">
+                {compareMode ? 'Ready to Compare' : mode === 'tune' ? 'Ready to Tune' : 'Ready to Train'}
+              </h3>
               <p className="text-sm text-muted-foreground">
-                Your pipeline is configured and ready to run
+                {compareMode
+                  ? invalidCompared.length > 0
+                    ? `Fix the hyperparameters of ${invalidCompared.map(m => m.name).join(', ')} before comparing`
+                    : runCount === 0
+                      ? 'Select at least one model to compare'
+                      : `${runCount} training run${runCount === 1 ? '' : 's'} on the same split, each with its current hyperparameters`
+                  : hasInvalidHyperparameters
+                    ? 'Fix the highlighted hyperparameters before training'
+                    : mode === 'tune'
+                      ? tuningErrors.length > 0
+                        ? tuningErrors[0]
+                        : 'Untuned hyperparameters keep the values set below'
+                      : 'Your pipeline is configured and ready to run'}
               </p>
             </div>
           </div>
-          <Button
-            onClick={onTrain}
-            disabled={isProcessing}
-            size="lg"
-            className="gap-2 bg-stage-model hover:bg-stage-model/90 min-w-[140px]"
-          >
-            {isProcessing ? (
-              <>
-                <div className="w-4 h-4 border-2 border-foreground border-t-transparent rounded-full animate-spin" />
-                Training...
-              </>
-            ) : (
-              <>
-                <Play className="w-4 h-4" />
-                Train Model
-              </>
+          <div className="flex items-center gap-2">
+            {isProcessing && (
+              <Button variant="outline" size="lg" onClick={onCancel} className="gap-2">
+                <Square className="w-4 h-4" />
+                Cancel
+              </Button>
             )}
-          </Button>
+            <Button
+              onClick={compareMode ? handleCompare : mode === 'tune' ? () => onTune(tuning) : onTrain}
+              disabled={isProcessing || !canRun}
+              size="lg"
+              className="gap-2 bg-stage-model hover:bg-stage-model/90 min-w-[140px]"
+            >
+              {isProcessing ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-foreground border-t-transparent rounded-full animate-spin" />
+                  {compareMode ? 'Comparing...' : mode === 'tune' ? 'Searching...' : 'Training...'}
+                </>
+              ) : compareMode ? (
+                <>
+                  <GitCompare className="w-4 h-4" />
+                  Compare Models
+                </>
+              ) : mode === 'tune' ? (
+                <>
+                  <Search className="w-4 h-4" />
+                  Start Search
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  Train Model
+                </>
+              )}
+            </Button>
+          </div>
         </div>
+
+        {isProcessing && progress && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            className="mt-5 space-y-2"
+          >
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{phaseLabels[progress.phase]}</span>
+              <span className="font-mono text-muted-foreground">{Math.round(progress.fraction * 100)}%</span>
+            </div>
+            <Progress value={progress.fraction * 100} className="h-2" />
+            <p className="text-xs font-mono text-muted-foreground">{progress.detail}</p>
+          </motion.div>
+        )}
       </Card>
 
       <div className="flex justify-between pt-4">
@@ -0,0 +1,286 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Dataset, DependenceCurve, DependenceSurface, PipelineConfig, TrainedModel } from '@/types/pipeline';
+import { splitRows, transformRows } from '@/lib/pipeline';
+import { MAX_ICE_CURVES } from '@/lib/partial-dependence';
+import { AnalysisCancelledError, useAnalysisWorker } from '@/hooks/use-analysis-worker';
+
+interface PartialDependencePanelProps {
+  model: TrainedModel;
+  dataset: Dataset;
+  // The config the model was trained with, which fixes its training rows
+  config: PipelineConfig;
+}
+
+// Select value for "no second feature"
+const NONE = '__none__';
+
+const chartConfig = {
+  average: { label: 'Partial dependence', color: 'hsl(var(--stage-model))' },
+  ice: { label: 'Individual rows', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumSignificantDigits: 4 });
+
+function Heatmap({ surface, outputLabel }: { surface: DependenceSurface; outputLabel: string }) {
+  const { columns, values, surface: cells } = surface;
+  const flat = cells.flat();
+  const min = Math.min(...flat);
+  const max = Math.max(...flat);
+  const shade = (value: number) => {
+    const t = max === min ? 0.5 : (value - min) / (max - min);
+    return `hsl(var(--stage-model) / ${(0.08 + 0.92 * t).toFixed(3)})`;
+  };
+  // Higher values of the second feature at the top
+  const rows = values[1].map((_, b) => b).reverse();
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-px min-w-[28rem]"
+          style={{ gridTemplateColumns: `auto repeat(${values[0].length}, minmax(0, 1fr))` }}
+        >
+          {rows.map(b => (
+            <div key={b} className="contents">
+              <span className="pr-2 text-right text-xs font-mono text-muted-foreground">{formatNumber(values[1][b])}</span>
+              {values[0].map((a, i) => (
+                <div
+                  key={i}
+                  className="h-7 rounded-sm"
+                  style={{ backgroundColor: shade(cells[i][b]) }}
+                  title={`${columns[0]} = ${formatNumber(a)}, ${columns[1]} = ${formatNumber(values[1][b])}: ${outputLabel} ${formatNumber(cells[i][b])}`}
+                />
+              ))}
+            </div>
+          ))}
+          <span />
+          {values[0].map((a, i) => (
+            <span key={i} className="pt-1 text-center text-[10px] font-mono text-muted-foreground">
+              {i % 2 === 0 ? formatNumber(a) : ''}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-muted-foreground">
+        <span>
+          Across: <span className="font-mono">{columns[0]}</span> · Up: <span className="font-mono">{columns[1]}</span>
+        </span>
+        <span className="flex items-center gap-2">
+          {outputLabel} {formatNumber(min)}
+          <span
+            className="h-2 w-24 rounded-full"
+            style={{ background: `linear-gradient(to right, ${shade(min)}, ${shade(max)})` }}
+          />
+          {formatNumber(max)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function PartialDependencePanel({ model, dataset, config }: PartialDependencePanelProps) {
+  const { classLabels, targetColumn, preprocessing } = model;
+  const numericColumns = model.featureColumns.filter(column => preprocessing.numericColumns.includes(column));
+  const [selectedFeature, setFeature] = useState('');
+  const [selectedSecond, setSecond] = useState(NONE);
+  const [selectedClass, setClassIndex] = useState(classLabels?.length === 2 ? 1 : 0);
+  const [showIce, setShowIce] = useState(true);
+
+  // A promoted model may lack the columns or class picked for the previous one
+  const feature = numericColumns.includes(selectedFeature) ? selectedFeature : numericColumns[0];
+  const second = numericColumns.includes(selectedSecond) && selectedSecond !== feature ? selectedSecond : NONE;
+  const classIndex = classLabels ? Math.min(selectedClass, classLabels.length - 1) : null;
+  const outputLabel = classIndex === null ? targetColumn : `P(${classLabels![classIndex]})`;
+
+  // Curves average over the same training rows the model was fitted on
+  const background = useMemo(() => {
+    try {
+      return transformRows(splitRows(dataset, config).trainRows, preprocessing);
+    } catch {
+      return null;
+    }
+  }, [dataset, config, preprocessing]);
+
+  // Curves take up to thousands of model calls, so they are computed in a
+  // worker. A result is kept with the selection it answers until the next
+  // one arrives.
+  const { dependenceCurve, dependenceSurface } = useAnalysisWorker();
+  const selection = `${feature}|${second}|${classIndex}`;
+  const [computed, setComputed] = useState<{
+    background: number[][];
+    selection: string;
+    curve: DependenceCurve | null;
+    surface: DependenceSurface | null;
+  } | null>(null);
+  const [computeError, setComputeError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!background || !feature) return;
+    setComputeError(null);
+    const request = second === NONE
+      ? dependenceCurve(model, background, feature, classIndex, config.seed)
+          .then(curve => ({ curve, surface: null }))
+      : dependenceSurface(model, background, [feature, second], classIndex, config.seed)
+          .then(surface => ({ curve: null, surface }));
+    request
+      .then(result => setComputed({ background, selection, ...result }))
+      .catch(error => {
+        if (error instanceof AnalysisCancelledError) return;
+        setComputeError(error instanceof Error ? error.message : 'Could not compute partial dependence');
+      });
+  }, [dependenceCurve, dependenceSurface, model, background, feature, second, classIndex, selection, config.seed]);
+
+  const current = computed && computed.background === background && computed.selection === selection ? computed : null;
+  const curve = current?.curve ?? null;
+  const surface = current?.surface ?? null;
+
+  if (numericColumns.length === 0 || !background) return null;
+
+  const points = curve
+    ? curve.values.map((value, g) => ({
+        value,
+        average: curve.average[g],
+        ...Object.fromEntries(curve.ice.map((line, i) => [`ice${i}`, line[g]])),
+      }))
+    : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-5 space-y-4">
+        <div className="flex items-center gap-3">
+          <TrendingUp className="w-5 h-5 text-muted-foreground" />
+          <div>
+            <h3 className="font-medium">Partial Dependence</h3>
+            <p className="text-xs text-muted-foreground">
+              How {outputLabel} changes as a feature moves across its training range, averaged over training rows
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="dependence-feature" className="text-sm">Feature</Label>
+            <Select value={feature} onValueChange={setFeature}>
+              <SelectTrigger id="dependence-feature" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {numericColumns.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="dependence-second" className="text-sm">Second feature</Label>
+            <Select value={second} onValueChange={setSecond}>
+              <SelectTrigger id="dependence-second" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {numericColumns.filter(column => column !== feature).map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {classLabels && classLabels.length > 2 && (
+            <div className="space-y-1.5">
+              <Label htmlFor="dependence-class" className="text-sm">Class</Label>
+              <Select value={String(classIndex)} onValueChange={(value) => setClassIndex(Number(value))}>
+                <SelectTrigger id="dependence-class" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {classLabels.map((label, k) => (
+                    <SelectItem key={label} value={String(k)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {curve && (
+            <label className="flex items-center gap-2 pb-2 text-sm">
+              <Switch checked={showIce} onCheckedChange={setShowIce} />
+              Show ICE curves
+            </label>
+          )}
+        </div>
+
+        {curve && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+            <LineChart data={points} margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="value"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatNumber}
+                label={{ value: curve.column, position: 'insideBottom', offset: -10 }}
+              />
+              <YAxis
+                type="number"
+                domain={['auto', 'auto']}
+                tickFormatter={formatNumber}
+                label={{ value: outputLabel, angle: -90, position: 'insideLeft' }}
+              />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => `${curve.column} = ${formatNumber(payload[0]?.payload.value)}`} />}
+              />
+              {showIce &&
+                curve.ice.map((_, i) => (
+                  <Line
+                    key={i}
+                    type="linear"
+                    dataKey={`ice${i}`}
+                    stroke="var(--color-ice)"
+                    strokeOpacity={0.25}
+                    strokeWidth={1}
+                    dot={false}
+                    isAnimationActive={false}
+                    tooltipType="none"
+                  />
+                ))}
+              <Line type="linear" dataKey="average" stroke="var(--color-average)" strokeWidth={3} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {surface && <Heatmap surface={surface} outputLabel={outputLabel} />}
+
+        {!current && (
+          <div className="flex h-[300px] items-center justify-center gap-2 text-sm text-muted-foreground">
+            {computeError ? (
+              <span className="text-destructive">{computeError}</span>
+            ) : (
+              <>
+                <div className="w-4 h-4 border-2 border-foreground border-t-transparent rounded-full animate-spin" />
+                Computing partial dependence…
+              </>
+            )}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {second === NONE
+            ? `Thin lines are individual conditional expectation (ICE) curves for up to ${MAX_ICE_CURVES} training rows; curves with different shapes point to interactions with other features.`
+            : 'Each cell is the average prediction with both features fixed to its values.'}{' '}
+          Only numeric columns can be picked.
+        </p>
+      </Card>
+    </motion.div>
+  );
+}
@@ -6,39 +6,61 @@ import { PreprocessingConfig } from './PreprocessingConfig';
 import { TrainTestSplit } from './TrainTestSplit';
 import { ModelSelection } from './ModelSelection';
 import { ResultsView } from './ResultsView';
-import { PipelineState, PipelineStage, Dataset } from '@/types/pipeline';
+import { ModelLeaderboard } from './ModelLeaderboard';
 import {
-  standardScaler,
-  minMaxScaler,
-  trainTestSplit,
-  logisticRegression,
-  predictLogistic,
-  decisionTreeClassifier,
-  predictDecisionTree,
-  calculateAccuracy,
-  confusionMatrix,
-} from '@/lib/ml-utils';
+  PipelineState,
+  PipelineStage,
+  PipelineConfig,
+  Dataset,
+  ComparisonCandidate,
+  ComparisonEntry,
+  TrainedModel,
+  TrainingResults,
+  TuningConfig,
+} from '@/types/pipeline';
+import { DEFAULT_SEED, isCategorical } from '@/lib/pipeline';
+import { createModelBundle, parseModelBundle } from '@/lib/model-bundle';
+import { DEFAULT_HYPERPARAMETERS } from '@/lib/hyperparameters';
+import { downloadFile } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { TrainingCancelledError, useTrainingWorker } from '@/hooks/use-training-worker';
 
 const initialState: PipelineState = {
   currentStage: 'upload',
   dataset: null,
   config: {
+    taskType: 'classification',
     preprocessing: 'standard',
+    imputation: { strategy: 'mean', fillValue: '' },
+    categoricalEncodings: {},
     splitRatio: 0.2,
+    seed: DEFAULT_SEED,
+    stratify: true,
     targetColumn: null,
     featureColumns: [],
     modelType: 'logistic',
+    hyperparameters: DEFAULT_HYPERPARAMETERS,
+    crossValidation: { enabled: false, folds: 5, stratified: true },
   },
+  trainedConfig: null,
   results: null,
+  model: null,
+  comparison: null,
   isProcessing: false,
   error: null,
   completedStages: [],
 };
 
+// Add stages to the completed list, each at most once
+function withCompleted(completed: PipelineStage[], ...stages: PipelineStage[]): PipelineStage[] {
+  return [...completed, ...stages.filter(stage => !completed.includes(stage))];
+}
+
 export function PipelineBuilder() {
   const [state, setState] = useState<PipelineState>(initialState);
   const { toast } = useToast();
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const { train, compare, tune, cancel, progress } = useTrainingWorker();
 
   const setStage = useCallback((stage: PipelineStage) => {
     setState(prev => ({ ...prev, currentStage: stage }));
@@ -47,30 +69,47 @@ export function PipelineBuilder() {
   const markStageComplete = useCallback((stage: PipelineStage) => {
     setState(prev => ({
       ...prev,
-      completedStages: prev.completedStages.includes(stage)
-        ? prev.completedStages
-        : [...prev.completedStages, stage],
+      completedStages: withCompleted(prev.completedStages, stage),
     }));
   }, []);
 
   const handleDatasetLoaded = useCallback((dataset: Dataset | null) => {
+    // Results, explanations and exports all refer to the rows the model was
+    // trained on, so they go with the old dataset
+    const untrained = (prev: PipelineState): PipelineState => ({
+      ...prev,
+      trainedConfig: null,
+      results: null,
+      model: null,
+      comparison: null,
+      completedStages: prev.completedStages.filter(stage => stage === 'upload'),
+    });
+    setShowLeaderboard(false);
+
     if (dataset) {
-      const numericCols = dataset.columns.filter(c => c.type === 'numeric');
+      const target = dataset.columns[dataset.columns.length - 1];
+      const numericFeatures = dataset.columns.filter(c => c.type === 'numeric' && c !== target);
       setState(prev => ({
-        ...prev,
+        ...untrained(prev),
         dataset,
         config: {
           ...prev.config,
-          targetColumn: numericCols[numericCols.length - 1]?.name || null,
-          featureColumns: numericCols.slice(0, -1).map(c => c.name),
+          taskType: isCategorical(target) ? 'classification' : prev.config.taskType,
+          categoricalEncodings: {},
+          targetColumn: target?.name || null,
+          featureColumns: numericFeatures.map(c => c.name),
         },
       }));
     } else {
-      setState(prev => ({ ...prev, dataset: null }));
+      setState(prev => ({ ...untrained(prev), dataset: null }));
     }
   }, []);
 
-  const handleTrain = useCallback(async () => {
+  // Shared by plain training and hyperparameter search, which both end in a
+  // single trained model
+  const runTraining = useCallback(async (
+    start: (dataset: Dataset, config: PipelineConfig) => Promise<{ results: TrainingResults; model: TrainedModel }>
+  ) => {
     const { dataset, config } = state;
     if (!dataset || !config.targetColumn || config.featureColumns.length === 0) {
       toast({
@@ -84,91 +123,194 @@ export function PipelineBuilder() {
     setState(prev => ({ ...prev, isProcessing: true, error: null }));
 
     try {
-      const startTime = performance.now();
-
-      // Extract features and target
-      const featureIndices = config.featureColumns.map(name => 
-        dataset.columns.findIndex(c => c.name === name)
-      );
-      const targetIndex = dataset.columns.findIndex(c => c.name === config.targetColumn);
-
-      let X = dataset.rawData.map(row =>
-        featureIndices.map(i => {
-          const val = Number(row[dataset.columns[i].name]);
-          return isNaN(val) ? 0 : val;
-        })
-      );
-
-      const y = dataset.rawData.map(row => {
-        const val = Number(row[config.targetColumn!]);
-        return isNaN(val) ? 0 : (val > 0.5 ? 1 : 0); // Binary classification
-      });
+      const { results, model } = await start(dataset, config);
+      const tuned = results.tuning ? results.tuning.trials[results.tuning.bestTrial].hyperparameters : {};
+      const trainedConfig = {
+        ...config,
+        hyperparameters: {
+          ...config.hyperparameters,
+          [config.modelType]: { ...config.hyperparameters[config.modelType], ...tuned },
+        },
+      };
+
+      setState(prev => ({
+        ...prev,
+        // Keep the winning search trial so exports and retraining use it
+        config: {
+          ...prev.config,
+          hyperparameters: {
+            ...prev.config.hyperparameters,
+            [prev.config.modelType]: { ...prev.config.hyperparameters[prev.config.modelType], ...tuned },
+          },
+        },
+        trainedConfig,
+        isProcessing: false,
+        results,
+        model,
+        comparison: null,
+        currentStage: 'results',
+        completedStages: withCompleted(prev.completedStages, 'model', 'results'),
+      }));
+      setShowLeaderboard(false);
 
-      // Apply preprocessing
-      if (config.preprocessing === 'standard') {
-        X = standardScaler(X);
-      } else if (config.preprocessing === 'minmax') {
-        X = minMaxScaler(X);
+      const score = results.taskType === 'regression'
+        ? `R² of ${results.r2.toFixed(3)}`
+        : `${(results.accuracy * 100).toFixed(2)}% accuracy`;
+      toast({
+        title: results.tuning ? 'Search Complete' : 'Training Complete',
+        description: results.tuning
+          ? `Best of ${results.tuning.trials.length} trials achieved ${score} on test data.`
+          : `Model achieved ${score} on test data.`,
+      });
+    } catch (error) {
+      if (error instanceof TrainingCancelledError) {
+        setState(prev => ({ ...prev, isProcessing: false }));
+        toast({ title: 'Training Cancelled', description: 'The training run was stopped.' });
+        return;
       }
+      console.error('Training error:', error);
+      setState(prev => ({
+        ...prev,
+        isProcessing: false,
+        error: error instanceof Error ? error.message : 'Training failed',
+      }));
+      toast({
+        title: 'Training Failed',
+        description: error instanceof Error ? error.message : 'An error occurred during model training.',
+        variant: 'destructive',
+      });
+    }
+  }, [state, toast]);
 
-      // Train-test split
-      const { X_train, X_test, y_train, y_test } = trainTestSplit(X, y, config.splitRatio);
+  const handleTrain = useCallback(() => runTraining(train), [runTraining, train]);
 
-      let predictions: number[];
-      let trainPredictions: number[];
+  const handleTune = useCallback(
+    (tuning: TuningConfig) => runTraining((dataset, config) => tune(dataset, config, tuning)),
+    [runTraining, tune]
+  );
 
-      if (config.modelType === 'logistic') {
-        const { weights, bias } = logisticRegression(X_train, y_train);
-        predictions = predictLogistic(X_test, weights, bias);
-        trainPredictions = predictLogistic(X_train, weights, bias);
-      } else {
-        const tree = decisionTreeClassifier(X_train, y_train);
-        predictions = predictDecisionTree(X_test, tree);
-        trainPredictions = predictDecisionTree(X_train, tree);
-      }
+  const handleCompare = useCallback(async (candidates: ComparisonCandidate[]) => {
+    const { dataset, config } = state;
+    if (!dataset || !config.targetColumn || config.featureColumns.length === 0) {
+      toast({
+        title: 'Configuration Error',
+        description: 'Please ensure all configuration options are set correctly.',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-      const accuracy = calculateAccuracy(y_test, predictions);
-      const trainAccuracy = calculateAccuracy(y_train, trainPredictions);
-      const cm = confusionMatrix(y_test, predictions);
-      const trainingTime = Math.round(performance.now() - startTime);
+    setState(prev => ({ ...prev, isProcessing: true, error: null }));
+
+    try {
+      const entries = await compare(dataset, config, candidates);
+      const trained = entries.filter(entry => entry.results !== null).length;
 
       setState(prev => ({
         ...prev,
+        trainedConfig: config,
         isProcessing: false,
-        results: {
-          accuracy,
-          trainAccuracy,
-          predictions,
-          confusionMatrix: cm,
-          trainingTime,
-          trainSize: X_train.length,
-          testSize: X_test.length,
-        },
+        results: null,
+        model: null,
+        comparison: entries,
         currentStage: 'results',
-        completedStages: [...prev.completedStages, 'model', 'results'],
+        completedStages: withCompleted(prev.completedStages, 'model', 'results'),
       }));
+      setShowLeaderboard(true);
 
       toast({
-        title: 'Training Complete',
-        description: `Model achieved ${(accuracy * 100).toFixed(2)}% accuracy on test data.`,
+        title: 'Comparison Complete',
+        description: `${trained} of ${entries.length} runs trained successfully.`,
+        variant: trained === 0 ? 'destructive' : 'default',
       });
     } catch (error) {
-      console.error('Training error:', error);
+      if (error instanceof TrainingCancelledError) {
+        setState(prev => ({ ...prev, isProcessing: false }));
+        toast({ title: 'Comparison Cancelled', description: 'The comparison run was stopped.' });
+        return;
+      }
       setState(prev => ({
         ...prev,
         isProcessing: false,
-        error: error instanceof Error ? error.message : 'Training failed',
+        error: error instanceof Error ? error.message : 'Comparison failed',
       }));
       toast({
-        title: 'Training Failed',
-        description: 'An error occurred during model training.',
+        title: 'Comparison Failed',
+        description: error instanceof Error ? error.message : 'An error occurred while comparing models.',
         variant: 'destructive',
       });
     }
-  }, [state, toast]);
+  }, [state, toast, compare]);
+
+  // Make a leaderboard row the active model, as if it had been trained alone
+  const handlePromote = useCallback((entry: ComparisonEntry) => {
+    setState(prev => ({
+      ...prev,
+      config: { ...prev.config, modelType: entry.modelType, preprocessing: entry.preprocessing },
+      // Every candidate shares the comparison settings apart from these two
+      trainedConfig: prev.trainedConfig && {
+        ...prev.trainedConfig,
+        modelType: entry.modelType,
+        preprocessing: entry.preprocessing,
+      },
+      results: entry.results,
+      model: entry.model,
+    }));
+    setShowLeaderboard(false);
+  }, []);
+
+  const handleDownloadModel = useCallback(() => {
+    const { trainedConfig, model, results, dataset } = state;
+    if (!model || !results || !trainedConfig) return;
+
+    const bundle = createModelBundle(trainedConfig, model, results, dataset);
+    downloadFile(
+      `${model.targetColumn}-${model.modelType}-model.json`,
+      JSON.stringify(bundle, null, 2),
+      'application/json'
+    );
+  }, [state]);
+
+  const handleImportModel = useCallback(async (file: File) => {
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON.');
+      }
+      const bundle = parseModelBundle(json, state.dataset);
+
+      setState(prev => ({
+        ...prev,
+        config: bundle.config,
+        trainedConfig: bundle.config,
+        model: bundle.model,
+        results: bundle.results,
+        comparison: null,
+        error: null,
+        currentStage: 'results',
+        completedStages: prev.dataset ? ['upload', 'preprocess', 'split', 'model', 'results'] : ['results'],
+      }));
+
+      setShowLeaderboard(false);
+
+      toast({
+        title: 'Model Imported',
+        description: `Restored a model predicting "${bundle.model.targetColumn}" from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'Could not read the model bundle.',
+        variant: 'destructive',
+      });
+    }
+  }, [state.dataset, toast]);
 
   const handleReset = useCallback(() => {
     setState(initialState);
+    setShowLeaderboard(false);
   }, []);
 
   return (
@@ -212,6 +354,7 @@ export function PipelineBuilder() {
               <DatasetUpload
                 dataset={state.dataset}
                 onDatasetLoaded={handleDatasetLoaded}
+                onImportModel={handleImportModel}
                 onNext={() => {
                   markStageComplete('upload');
                   setStage('preprocess');
@@ -228,13 +371,31 @@ export function PipelineBuilder() {
               exit={{ opacity: 0, x: -20 }}
             >
               <PreprocessingConfig
+                dataset={state.dataset}
                 method={state.config.preprocessing}
+                imputation={state.config.imputation}
+                encodings={state.config.categoricalEncodings}
                 onMethodChange={(method) =>
                   setState(prev => ({
                     ...prev,
                     config: { ...prev.config, preprocessing: method },
                   }))
                 }
+                onImputationChange={(imputation) =>
+                  setState(prev => ({
+                    ...prev,
+                    config: { ...prev.config, imputation },
+                  }))
+                }
+                onEncodingChange={(column, encoding) =>
+                  setState(prev => ({
+                    ...prev,
+                    config: {
+                      ...prev.config,
+                      categoricalEncodings: { ...prev.config.categoricalEncodings, [column]: encoding },
+                    },
+                  }))
+                }
                 onNext={() => {
                   markStageComplete('preprocess');
                   setStage('split');
@@ -253,15 +414,46 @@ export function PipelineBuilder() {
             >
               <TrainTestSplit
                 dataset={state.dataset}
+                taskType={state.config.taskType}
                 splitRatio={state.config.splitRatio}
+                seed={state.config.seed}
+                stratify={state.config.stratify}
                 targetColumn={state.config.targetColumn}
                 featureColumns={state.config.featureColumns}
+                crossValidation={state.config.crossValidation}
+                onTaskTypeChange={(taskType) =>
+                  setState(prev => {
+                    // Categorical columns cannot be regression targets
+                    const target = prev.dataset?.columns.find(c => c.name === prev.config.targetColumn);
+                    const keepTarget = taskType === 'classification' || !isCategorical(target);
+                    return {
+                      ...prev,
+                      config: {
+                        ...prev.config,
+                        taskType,
+                        targetColumn: keepTarget ? prev.config.targetColumn : null,
+                      },
+                    };
+                  })
+                }
                 onSplitRatioChange={(ratio) =>
                   setState(prev => ({
                     ...prev,
                     config: { ...prev.config, splitRatio: ratio },
                   }))
                 }
+                onSeedChange={(seed) =>
+                  setState(prev => ({
+                    ...prev,
+                    config: { ...prev.config, seed },
+                  }))
+                }
+                onStratifyChange={(stratify) =>
+                  setState(prev => ({
+                    ...prev,
+                    config: { ...prev.config, stratify },
+                  }))
+                }
                 onTargetColumnChange={(column) =>
                   setState(prev => ({
                     ...prev,
@@ -278,6 +470,12 @@ export function PipelineBuilder() {
                     config: { ...prev.config, featureColumns: columns },
                   }))
                 }
+                onCrossValidationChange={(crossValidation) =>
+                  setState(prev => ({
+                    ...prev,
+                    config: { ...prev.config, crossValidation },
+                  }))
+                }
                 onNext={() => {
                   markStageComplete('split');
                   setStage('model');
@@ -295,6 +493,7 @@ export function PipelineBuilder() {
               exit={{ opacity: 0, x: -20 }}
             >
               <ModelSelection
+                taskType={state.config.taskType}
                 model={state.config.modelType}
                 onModelChange={(model) =>
                   setState(prev => ({
@@ -302,14 +501,53 @@ export function PipelineBuilder() {
                     config: { ...prev.config, modelType: model },
                   }))
                 }
+                hyperparameters={state.config.hyperparameters}
+                onHyperparameterChange={(key, value) =>
+                  setState(prev => {
+                    const { modelType, hyperparameters } = prev.config;
+                    return {
+                      ...prev,
+                      config: {
+                        ...prev.config,
+                        hyperparameters: {
+                          ...hyperparameters,
+                          [modelType]: { ...hyperparameters[modelType], [key]: value },
+                        },
+                      },
+                    };
+                  })
+                }
                 onTrain={handleTrain}
+                preprocessing={state.config.preprocessing}
+                onCompare={handleCompare}
+                onTune={handleTune}
+                folds={state.config.crossValidation.folds}
                 onBack={() => setStage('split')}
                 isProcessing={state.isProcessing}
+                progress={progress}
+                onCancel={cancel}
+              />
+            </motion.div>
+          )}
+
+          {state.currentStage === 'results' && showLeaderboard && state.comparison && state.trainedConfig && (
+            <motion.div
+              key="leaderboard"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+            >
+              <ModelLeaderboard
+                entries={state.comparison}
+                taskType={state.trainedConfig.taskType}
+                activeModel={state.model}
+                onPromote={handlePromote}
+                onReset={handleReset}
               />
             </motion.div>
           )}
 
-          {state.currentStage === 'results' && state.results && (
+          {state.currentStage === 'results' && !(showLeaderboard && state.comparison) && state.results && state.trainedConfig && (
             <motion.div
               key="results"
               initial={{ opacity: 0, x: 20 }}
@@ -318,7 +556,11 @@ export function PipelineBuilder() {
             >
               <ResultsView
                 results={state.results}
-                modelType={state.config.modelType}
+                model={state.model}
+                trainedConfig={state.trainedConfig}
+                dataset={state.dataset}
+                onDownloadModel={handleDownloadModel}
+                onShowLeaderboard={state.comparison ? () => setShowLeaderboard(true) : undefined}
                 onReset={handleReset}
               />
             </motion.div>
@@ -0,0 +1,337 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Lightbulb } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Dataset, Explanation, PipelineConfig, ScoredTestSet, TrainedModel } from '@/types/pipeline';
+import { shapleySamples } from '@/lib/explanations';
+import { categoryKey, isMissing, parseNumeric } from '@/lib/ml-utils';
+import { AnalysisCancelledError, useAnalysisWorker } from '@/hooks/use-analysis-worker';
+import { cn } from '@/lib/utils';
+
+interface PredictionExplorerProps {
+  model: TrainedModel;
+  dataset: Dataset;
+  // The config the model was trained with, which fixes its split and seed
+  config: PipelineConfig;
+}
+
+const PAGE_SIZE = 10;
+
+// Contributions beyond these are summed into one "other features" step
+const MAX_STEPS = 10;
+
+const chartConfig = {
+  positive: { label: 'Raises the output', color: 'hsl(var(--stage-results))' },
+  negative: { label: 'Lowers the output', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${formatNumber(value)}`;
+
+function formatRaw(value: unknown): string {
+  if (isMissing(value)) return '(missing)';
+  return typeof value === 'number' ? formatNumber(value) : String(value);
+}
+
+interface TestRow {
+  index: number;
+  actual: string;
+  predicted: string;
+  // Classification: probability of the predicted class; regression: |error|
+  score: number | null;
+  wrong: boolean;
+  error: number;
+}
+
+interface WaterfallStep {
+  label: string;
+  range: [number, number];
+  contribution: number;
+}
+
+// Running total from the base value, largest contributions first
+function waterfallSteps(explanation: Explanation, labels: string[]): WaterfallStep[] {
+  const order = explanation.contributions
+    .map((contribution, c) => ({ contribution, label: labels[c] }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  const shown = order.slice(0, MAX_STEPS);
+  const rest = order.slice(MAX_STEPS);
+  if (rest.length > 0) {
+    shown.push({
+      label: `${rest.length} other feature${rest.length === 1 ? '' : 's'}`,
+      contribution: rest.reduce((sum, item) => sum + item.contribution, 0),
+    });
+  }
+
+  let total = explanation.baseValue;
+  return shown.map(({ label, contribution }) => {
+    const start = total;
+    total += contribution;
+    return { label, contribution, range: [Math.min(start, total), Math.max(start, total)] };
+  });
+}
+
+export function PredictionExplorer({ model, dataset, config }: PredictionExplorerProps) {
+  const [page, setPage] = useState(0);
+  const [errorsFirst, setErrorsFirst] = useState(false);
+  const [selected, setSelected] = useState(0);
+  const { classLabels, featureColumns, targetColumn } = model;
+
+  // The test rows of the seeded split, scored afresh in the analysis worker
+  // so the table also works for imported models. Scoring k-NN compares every
+  // test row with every training row, which would freeze the page.
+  const { scoreTestSet, explain } = useAnalysisWorker();
+  const [scored, setScored] = useState<ScoredTestSet | null>(null);
+  const [scoreError, setScoreError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setScored(null);
+    setScoreError(null);
+    scoreTestSet(model, dataset, config)
+      .then(setScored)
+      .catch(error => {
+        if (error instanceof AnalysisCancelledError) return;
+        setScoreError(error instanceof Error ? error.message : 'Could not recover the test rows');
+      });
+  }, [scoreTestSet, model, dataset, config]);
+
+  const rows = useMemo(() => {
+    if (!scored) return [];
+    const { testRows, predictions, probabilities } = scored;
+    return testRows.map((row, i): TestRow => {
+      const raw = row[targetColumn];
+      if (classLabels) {
+        const predicted = classLabels[predictions[i]];
+        const wrong = categoryKey(raw) !== predicted;
+        return {
+          index: i,
+          actual: categoryKey(raw),
+          predicted,
+          score: probabilities ? probabilities[i][predictions[i]] : null,
+          wrong,
+          error: wrong ? 1 : 0,
+        };
+      }
+      const error = Math.abs(parseNumeric(raw) - predictions[i]);
+      return {
+        index: i,
+        actual: formatNumber(parseNumeric(raw)),
+        predicted: formatNumber(predictions[i]),
+        score: error,
+        wrong: false,
+        error,
+      };
+    });
+  }, [scored, classLabels, targetColumn]);
+
+  const ordered = useMemo(
+    () => (errorsFirst ? [...rows].sort((a, b) => b.error - a.error) : rows),
+    [rows, errorsFirst]
+  );
+
+  // Sampled Shapley values can take seconds for slow models, so every
+  // explanation is computed in a worker. A result is kept with the row it
+  // explains until the next one arrives.
+  const [explained, setExplained] = useState<{ scored: ScoredTestSet; index: number; explanation: Explanation } | null>(
+    null
+  );
+  const [explainError, setExplainError] = useState<string | null>(null);
+  const selectedIndex = Math.min(selected, rows.length - 1);
+
+  useEffect(() => {
+    if (!scored || selectedIndex < 0) return;
+    setExplainError(null);
+    explain(model, scored.X_test[selectedIndex], scored.background, config.seed)
+      .then(explanation => setExplained({ scored, index: selectedIndex, explanation }))
+      .catch(error => {
+        if (error instanceof AnalysisCancelledError) return;
+        setExplainError(error instanceof Error ? error.message : 'Could not explain this row');
+      });
+  }, [explain, model, scored, selectedIndex, config.seed]);
+
+  const explanation =
+    explained && explained.scored === scored && explained.index === selectedIndex ? explained.explanation : null;
+
+  if (scoreError) {
+    return (
+      <Card className="p-5 text-sm text-muted-foreground">
+        Explanations need the training dataset: {scoreError}
+      </Card>
+    );
+  }
+
+  if (!scored) {
+    return (
+      <Card className="p-5 flex items-center gap-2 text-sm text-muted-foreground">
+        <div className="w-4 h-4 border-2 border-foreground border-t-transparent rounded-full animate-spin" />
+        Scoring the test rows…
+      </Card>
+    );
+  }
+
+  const pages = Math.max(1, Math.ceil(ordered.length / PAGE_SIZE));
+  const visible = ordered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const selectedRow = scored.testRows[selectedIndex];
+  const labels = featureColumns.map(name => `${name} = ${formatRaw(selectedRow?.[name])}`);
+  const steps = explanation ? waterfallSteps(explanation, labels) : [];
+
+  const className = explanation && explanation.classIndex !== null ? classLabels![explanation.classIndex] : null;
+  const outputLabel = !explanation
+    ? ''
+    : explanation.output === 'log_odds'
+      ? `log-odds of ${className}`
+      : explanation.output === 'probability'
+        ? `P(${className})`
+        : targetColumn;
+  const methodNote = !explanation
+    ? ''
+    : explanation.method === 'linear'
+      ? 'Exact: each weight times the distance of the feature from the average training row, in log-odds (one-vs-rest for multiclass).'
+      : explanation.method === 'tree_path'
+        ? `Exact path contributions: the change in the node's ${className ? 'class share' : 'mean'} at every split on the way to the leaf${model.modelType === 'random_forest' ? ', averaged over the trees' : ''}.`
+        : `Shapley values estimated from ${shapleySamples(featureColumns.length)} random feature orderings per column against training rows, so they add up to the prediction only approximately.`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+    >
+      <Card className="p-5 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Lightbulb className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <h3 className="font-medium">Explain Predictions</h3>
+              <p className="text-xs text-muted-foreground">
+                Pick a test row to see how each feature pushed its prediction up or down
+              </p>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={errorsFirst}
+              onCheckedChange={(checked) => {
+                setErrorsFirst(checked);
+                setPage(0);
+              }}
+            />
+            {classLabels ? 'Misclassified first' : 'Largest errors first'}
+          </label>
+        </div>
+
+        <div className="grid lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+          <div className="space-y-2">
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Actual</th>
+                    <th>Predicted</th>
+                    <th>{classLabels ? 'Confidence' : 'Abs. error'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map(row => (
+                    <tr
+                      key={row.index}
+                      onClick={() => setSelected(row.index)}
+                      className={cn('cursor-pointer', row.index === selected && 'bg-stage-results/10 font-semibold')}
+                    >
+                      <td className="font-mono">{row.index + 1}</td>
+                      <td>{row.actual}</td>
+                      <td className={cn(row.wrong && 'text-destructive')}>{row.predicted}</td>
+                      <td>
+                        {row.score === null
+                          ? '—'
+                          : classLabels
+                            ? `${(row.score * 100).toFixed(1)}%`
+                            : formatNumber(row.score)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{ordered.length.toLocaleString()} test rows</span>
+              <div className="flex items-center gap-1">
+                <Button size="icon" variant="ghost" className="h-7 w-7" disabled={page === 0} onClick={() => setPage(p => p - 1)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span>Page {page + 1} of {pages}</span>
+                <Button size="icon" variant="ghost" className="h-7 w-7" disabled={page >= pages - 1} onClick={() => setPage(p => p + 1)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {!explanation && (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              {explainError ? (
+                <span className="text-destructive">{explainError}</span>
+              ) : (
+                <>
+                  <div className="w-4 h-4 border-2 border-foreground border-t-transparent rounded-full animate-spin" />
+                  Explaining row {selectedIndex + 1}…
+                </>
+              )}
+            </div>
+          )}
+
+          {explanation && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  Row {selectedIndex + 1} · {outputLabel}
+                </span>
+                <span>
+                  Average <span className="font-mono">{formatNumber(explanation.baseValue)}</span> → prediction{' '}
+                  <span className="font-mono font-semibold text-stage-results">{formatNumber(explanation.value)}</span>
+                </span>
+              </div>
+              <ChartContainer
+                config={chartConfig}
+                className="aspect-auto w-full"
+                style={{ height: 40 + steps.length * 30 }}
+              >
+                <BarChart data={steps} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" domain={['auto', 'auto']} tickFormatter={formatNumber} />
+                  <YAxis type="category" dataKey="label" width={160} interval={0} />
+                  <ReferenceLine x={explanation.baseValue} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                  <ReferenceLine x={explanation.value} stroke="hsl(var(--stage-results))" />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(_, __, item) => `${formatSigned(item.payload.contribution)} to ${outputLabel}`}
+                      />
+                    }
+                  />
+                  <Bar dataKey="range" radius={3}>
+                    {steps.map(step => (
+                      <Cell
+                        key={step.label}
+                        fill={step.contribution >= 0 ? 'var(--color-positive)' : 'var(--color-negative)'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+              <p className="text-xs text-muted-foreground">
+                The dashed line is the average output over the training rows and the solid line this row's
+                prediction. {methodNote}
+              </p>
+            </div>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+}
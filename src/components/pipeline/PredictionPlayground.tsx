@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FlaskConical } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NumericColumnStats, TrainedModel } from '@/types/pipeline';
+import { predictFeatures, predictProbaFeatures, transformRows } from '@/lib/pipeline';
+import { cn } from '@/lib/utils';
+
+interface PredictionPlaygroundProps {
+  model: TrainedModel;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+}
+
+// How each model turns its output into the class probabilities shown
+function probabilityCaption(model: TrainedModel, numClasses: number): string {
+  const binary = numClasses === 2;
+  switch (model.modelType) {
+    case 'logistic':
+      return binary ? 'Sigmoid of the logistic score' : 'One-vs-rest sigmoid scores, normalized';
+    case 'random_forest':
+      return 'Share of trees voting for each class';
+    case 'gradient_boosting':
+      return binary ? 'Sigmoid of the boosted score' : 'Softmax of the boosted class scores';
+    case 'knn':
+      return 'Share of the neighbor votes for each class';
+    case 'gaussian_nb':
+    case 'categorical_nb':
+      return 'Posterior class probabilities of the naive Bayes model';
+    case 'mlp':
+      return 'Softmax of the network outputs';
+    default:
+      return '';
+  }
+}
+
+function initialValues(model: TrainedModel): Record<string, string> {
+  const { numericColumns, numericStats, categorical } = model.preprocessing;
+  return Object.fromEntries(
+    model.featureColumns.map(name => {
+      const numericIndex = numericColumns.indexOf(name);
+      if (numericIndex !== -1) {
+        // Imported bundles may lack the stats; a blank input is imputed
+        const stats: NumericColumnStats | undefined = numericStats[numericIndex];
+        return [name, stats ? String(Number(stats.mean.toFixed(3))) : ''];
+      }
+      return [name, categorical[name].encoder.categories[0] ?? ''];
+    })
+  );
+}
+
+export function PredictionPlayground({ model }: PredictionPlaygroundProps) {
+  const [values, setValues] = useState<Record<string, string>>(() => initialValues(model));
+  const { numericColumns, numericStats, categorical } = model.preprocessing;
+
+  // Re-score on every change; a single row is cheap for every model type
+  const prediction = useMemo(() => {
+    const X = transformRows([values], model.preprocessing);
+    return {
+      value: predictFeatures(model, X)[0],
+      probabilities: predictProbaFeatures(model, X)?.[0] ?? null,
+    };
+  }, [model, values]);
+
+  const predictedLabel = model.classLabels
+    ? model.classLabels[prediction.value]
+    : formatNumber(prediction.value);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+    >
+      <Card className="p-5">
+        <div className="flex items-center gap-3 mb-4">
+          <FlaskConical className="w-5 h-5 text-muted-foreground" />
+          <div>
+            <h3 className="font-medium">Try It</h3>
+            <p className="text-xs text-muted-foreground">
+              Enter feature values to see what the model predicts. Blank values are imputed.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-[1fr_220px] gap-6">
+          <div className="grid sm:grid-cols-2 gap-4">
+            {model.featureColumns.map(name => {
+              const numericIndex = numericColumns.indexOf(name);
+              const id = `try-${name}`;
+
+              if (numericIndex !== -1) {
+                const stats: NumericColumnStats | undefined = numericStats[numericIndex];
+                return (
+                  <div key={name} className="space-y-1.5">
+                    <Label htmlFor={id} className="truncate block">{name}</Label>
+                    <Input
+                      id={id}
+                      type="number"
+                      value={values[name]}
+                      onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    />
+                    {stats && (
+                      <p className="text-[11px] text-muted-foreground">
+                        Training range {formatNumber(stats.min)} – {formatNumber(stats.max)}
+                      </p>
+                    )}
+                  </div>
+                );
+              }
+
+              return (
+                <div key={name} className="space-y-1.5">
+                  <Label htmlFor={id} className="truncate block">{name}</Label>
+                  <Select
+                    value={values[name]}
+                    onValueChange={(value) => setValues(prev => ({ ...prev, [name]: value }))}
+                  >
+                    <SelectTrigger id={id}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categorical[name].encoder.categories.map(category => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-[11px] text-muted-foreground">
+                    {categorical[name].encoder.categories.length} categories seen in training
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="rounded-lg bg-stage-results/10 border border-stage-results/30 p-4 self-start">
+            <p className="text-xs text-muted-foreground mb-1">
+              Predicted {model.targetColumn}
+            </p>
+            <p className="text-2xl font-bold text-stage-results break-words">{predictedLabel}</p>
+
+            {prediction.probabilities && model.classLabels && (
+              <div className="space-y-2 mt-4">
+                {model.classLabels.map((label, k) => (
+                  <div key={label}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="truncate">{label}</span>
+                      <span className="font-medium">{(prediction.probabilities![k] * 100).toFixed(1)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-secondary rounded-full overflow-hidden">
+                      <div
+                        className={cn(
+                          'h-full rounded-full transition-all',
+                          k === prediction.value ? 'bg-stage-results' : 'bg-muted-foreground/40'
+                        )}
+                        style={{ width: `${prediction.probabilities![k] * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <p className="text-[11px] text-muted-foreground pt-1">
+                  {probabilityCaption(model, model.classLabels.length)}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+}
@@ -1,13 +1,26 @@
 import { motion } from 'framer-motion';
-import { Settings2, ChevronRight, ChevronLeft, Sparkles, Scale } from 'lucide-react';
+import { Settings2, ChevronRight, ChevronLeft, Sparkles, Scale, Tags, Eraser } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { PreprocessingMethod } from '@/types/pipeline';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CategoricalEncoding,
+  Dataset,
+  ImputationConfig,
+  ImputationStrategy,
+  PreprocessingMethod,
+} from '@/types/pipeline';
 import { cn } from '@/lib/utils';
 
 interface PreprocessingConfigProps {
+  dataset: Dataset | null;
   method: PreprocessingMethod;
+  imputation: ImputationConfig;
+  encodings: Record<string, CategoricalEncoding>;
   onMethodChange: (method: PreprocessingMethod) => void;
+  onImputationChange: (imputation: ImputationConfig) => void;
+  onEncodingChange: (column: string, encoding: CategoricalEncoding) => void;
   onNext: () => void;
   onBack: () => void;
 }
@@ -33,7 +46,36 @@ const methods: { id: PreprocessingMethod; name: string; description: string; ico
   },
 ];
 
-export function PreprocessingConfig({ method, onMethodChange, onNext, onBack }: PreprocessingConfigProps) {
+const imputers: { id: ImputationStrategy; name: string; description: string }[] = [
+  { id: 'mean', name: 'Mean', description: 'Column average (most frequent value for text)' },
+  { id: 'median', name: 'Median', description: 'Column median (most frequent value for text)' },
+  { id: 'mode', name: 'Mode', description: 'Most frequent value' },
+  { id: 'constant', name: 'Constant', description: 'A fixed value you choose' },
+  { id: 'drop', name: 'Drop Rows', description: 'Remove rows with any missing feature' },
+  { id: 'indicator', name: 'Indicator', description: 'Mean fill plus a 0/1 "was missing" column' },
+];
+
+const encoders: { id: CategoricalEncoding; name: string; description: string }[] = [
+  { id: 'onehot', name: 'One-Hot', description: 'One 0/1 column per category' },
+  { id: 'ordinal', name: 'Ordinal', description: 'Categories numbered 0, 1, 2, …' },
+  { id: 'target', name: 'Target', description: 'Smoothed mean of the target per category' },
+  { id: 'frequency', name: 'Frequency', description: 'Share of rows holding the category' },
+];
+
+export function PreprocessingConfig({
+  dataset,
+  method,
+  imputation,
+  encodings,
+  onMethodChange,
+  onImputationChange,
+  onEncodingChange,
+  onNext,
+  onBack,
+}: PreprocessingConfigProps) {
+  const categoricalColumns = dataset?.columns.filter(c => c.type !== 'numeric') ?? [];
+  const missingColumns = dataset?.columns.filter(c => c.missingCount > 0) ?? [];
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -43,7 +85,7 @@ export function PreprocessingConfig({ method, onMethodChange, onNext, onBack }:
       <div className="text-center mb-8">
         <h2 className="text-2xl font-semibold mb-2">Data Preprocessing</h2>
         <p className="text-muted-foreground">
-          Choose how to scale and normalize your features
+          Choose how to scale, encode and fill in your features
         </p>
       </div>
 
@@ -125,6 +167,7 @@ export function PreprocessingConfig({ method, onMethodChange, onNext, onBack }:
                           <p className="text-muted-foreground"># Formula:</p>
                           <p className="text-stage-preprocess">z = (x - μ) / σ</p>
                           <p className="text-muted-foreground mt-2"># Where μ is mean, σ is standard deviation</p>
+                          <p className="text-muted-foreground"># Both are computed on the training split only</p>
                         </div>
                       )}
                       {m.id === 'minmax' && (
@@ -132,6 +175,7 @@ export function PreprocessingConfig({ method, onMethodChange, onNext, onBack }:
                           <p className="text-muted-foreground"># Formula:</p>
                           <p className="text-stage-preprocess">x_scaled = (x - min) / (max - min)</p>
                           <p className="text-muted-foreground mt-2"># Scales values to range [0, 1]</p>
+                          <p className="text-muted-foreground"># min and max come from the training split only</p>
                         </div>
                       )}
                     </div>
@@ -143,6 +187,113 @@ export function PreprocessingConfig({ method, onMethodChange, onNext, onBack }:
         })}
       </div>
 
+      <Card className="p-5">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-lg bg-stage-preprocess/20 flex items-center justify-center">
+            <Eraser className="w-5 h-5 text-stage-preprocess" />
+          </div>
+          <div>
+            <h3 className="font-medium">Missing Values</h3>
+            <p className="text-xs text-muted-foreground">
+              {missingColumns.length > 0
+                ? `${missingColumns.length} column${missingColumns.length === 1 ? '' : 's'} with missing values`
+                : 'No missing values detected'}
+            </p>
+          </div>
+        </div>
+        {missingColumns.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {missingColumns.map(col => (
+              <span key={col.name} className="px-2 py-1 rounded-md bg-secondary text-xs">
+                {col.name}
+                <span className="text-destructive ml-1.5">{col.missingCount.toLocaleString()}</span>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {imputers.map(imp => {
+            const isSelected = imputation.strategy === imp.id;
+            return (
+              <button
+                key={imp.id}
+                onClick={() => onImputationChange({ ...imputation, strategy: imp.id })}
+                className={cn(
+                  'px-3 py-2 rounded-lg text-left transition-all border',
+                  isSelected
+                    ? 'bg-stage-preprocess/10 border-stage-preprocess'
+                    : 'bg-secondary border-transparent hover:border-border'
+                )}
+              >
+                <span className={cn('block text-sm font-medium', isSelected ? 'text-stage-preprocess' : 'text-foreground')}>
+                  {imp.name}
+                </span>
+                <span className="block text-xs text-muted-foreground">{imp.description}</span>
+              </button>
+            );
+          })}
+        </div>
+        {imputation.strategy === 'constant' && (
+          <div className="mt-4 space-y-1">
+            <Input
+              value={imputation.fillValue}
+              onChange={(e) => onImputationChange({ ...imputation, fillValue: e.target.value })}
+              placeholder="Fill value"
+              className="max-w-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Left blank, numeric columns use 0 and text columns use "(missing)"
+            </p>
+          </div>
+        )}
+      </Card>
+
+      {categoricalColumns.length > 0 && (
+        <Card className="p-5">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-stage-preprocess/20 flex items-center justify-center">
+              <Tags className="w-5 h-5 text-stage-preprocess" />
+            </div>
+            <div>
+              <h3 className="font-medium">Categorical Encoding</h3>
+              <p className="text-xs text-muted-foreground">
+                Choose how each text column is turned into numeric features
+              </p>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {categoricalColumns.map(col => {
+              const encoding = encodings[col.name] ?? 'onehot';
+              return (
+                <div key={col.name} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{col.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {encoders.find(e => e.id === encoding)?.description}
+                    </p>
+                  </div>
+                  <Select
+                    value={encoding}
+                    onValueChange={(value) => onEncodingChange(col.name, value as CategoricalEncoding)}
+                  >
+                    <SelectTrigger className="w-36 flex-shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {encoders.map(e => (
+                        <SelectItem key={e.id} value={e.id}>
+                          {e.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
       <div className="flex justify-between pt-4">
         <Button variant="ghost" onClick={onBack} className="gap-2">
           <ChevronLeft className="w-4 h-4" />
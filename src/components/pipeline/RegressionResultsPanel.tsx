@@ -0,0 +1,122 @@
+import { motion } from 'framer-motion';
+import { Clock, Gauge, Ruler, Target } from 'lucide-react';
+import { CartesianGrid, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { RegressionResults } from '@/types/pipeline';
+
+interface RegressionResultsPanelProps {
+  results: RegressionResults;
+}
+
+// Keep the scatter plot responsive on large test sets
+const MAX_SCATTER_POINTS = 500;
+
+const chartConfig = {
+  predicted: { label: 'Predicted', color: 'hsl(var(--stage-results))' },
+} satisfies ChartConfig;
+
+function formatValue(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+}
+
+export function RegressionResultsPanel({ results }: RegressionResultsPanelProps) {
+  const step = Math.max(1, Math.ceil(results.actuals.length / MAX_SCATTER_POINTS));
+  const points = results.actuals
+    .map((actual, i) => ({ actual, predicted: results.predictions[i] }))
+    .filter((_, i) => i % step === 0);
+
+  const allValues = [...results.actuals, ...results.predictions];
+  const min = Math.min(...allValues);
+  const max = Math.max(...allValues);
+
+  const metrics = [
+    { label: 'Test R²', value: results.r2.toFixed(3), icon: Target, highlight: true },
+    { label: 'MAE', value: formatValue(results.mae), icon: Ruler },
+    { label: 'RMSE', value: formatValue(results.rmse), icon: Gauge },
+    { label: 'Training Time', value: `${results.trainingTime}ms`, icon: Clock },
+  ];
+
+  return (
+    <>
+      {/* Main Metrics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map((metric, index) => {
+          const Icon = metric.icon;
+          return (
+            <motion.div
+              key={metric.label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 * (index + 1) }}
+            >
+              <Card className={metric.highlight ? 'p-5 glow-results border-stage-results/30 text-center' : 'p-5 text-center'}>
+                <div
+                  className={
+                    metric.highlight
+                      ? 'w-12 h-12 rounded-xl bg-stage-results/20 flex items-center justify-center mx-auto mb-3'
+                      : 'w-12 h-12 rounded-xl bg-secondary flex items-center justify-center mx-auto mb-3'
+                  }
+                >
+                  <Icon className={metric.highlight ? 'w-6 h-6 text-stage-results' : 'w-6 h-6 text-muted-foreground'} />
+                </div>
+                <p className="text-sm text-muted-foreground mb-1">{metric.label}</p>
+                <p className={metric.highlight ? 'text-2xl font-bold text-stage-results' : 'text-2xl font-bold'}>
+                  {metric.value}
+                </p>
+              </Card>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {/* Predicted vs Actual */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.5 }}
+      >
+        <Card className="p-5">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-medium">Predicted vs Actual</h3>
+            <span className="text-xs text-muted-foreground">
+              Train R² {results.trainR2.toFixed(3)}
+              {step > 1 && ` · showing ${points.length} of ${results.actuals.length} test rows`}
+            </span>
+          </div>
+          <ChartContainer config={chartConfig} className="aspect-square max-h-[360px] w-full">
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="actual"
+                name="Actual"
+                domain={[min, max]}
+                tickFormatter={formatValue}
+                label={{ value: 'Actual', position: 'insideBottom', offset: -10 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="predicted"
+                name="Predicted"
+                domain={[min, max]}
+                tickFormatter={formatValue}
+                label={{ value: 'Predicted', angle: -90, position: 'insideLeft' }}
+              />
+              <ReferenceLine
+                segment={[{ x: min, y: min }, { x: max, y: max }]}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 4"
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Scatter data={points} fill="var(--color-predicted)" fillOpacity={0.7} />
+            </ScatterChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground text-center mt-2">
+            Points on the dashed line are perfect predictions
+          </p>
+        </Card>
+      </motion.div>
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ModelType, SearchDimension, TaskType, TuningConfig } from '@/types/pipeline';
+import { HYPERPARAMETER_CONTROLS } from '@/lib/hyperparameters';
+import { MAX_TRIALS, TUNING_METRICS, defaultDimension, dimensionValues, gridSize } from '@/lib/tuning';
+import { cn } from '@/lib/utils';
+
+interface SearchSpaceEditorProps {
+  modelType: ModelType;
+  taskType: TaskType;
+  tuning: TuningConfig;
+  onChange: (tuning: TuningConfig) => void;
+  folds: number;
+  errors: string[];
+}
+
+const formatValue = (value: number | string) =>
+  typeof value === 'number' ? value.toLocaleString(undefined, { maximumSignificantDigits: 4 }) : value;
+
+export function SearchSpaceEditor({ modelType, taskType, tuning, onChange, folds, errors }: SearchSpaceEditorProps) {
+  const controls = HYPERPARAMETER_CONTROLS[modelType];
+  const trials = tuning.strategy === 'grid' ? gridSize(tuning.dimensions) : tuning.budget;
+
+  const setDimension = (key: string, dimension: SearchDimension | null) =>
+    onChange({
+      ...tuning,
+      dimensions: dimension
+        ? controls
+            .map(c => (c.key === key ? dimension : tuning.dimensions.find(d => d.key === c.key)))
+            .filter((d): d is SearchDimension => d !== undefined)
+        : tuning.dimensions.filter(d => d.key !== key),
+    });
+
+  if (controls.length === 0) {
+    return <p className="text-sm text-muted-foreground">This model has no hyperparameters to tune.</p>;
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="tuning-strategy">Strategy</Label>
+          <Select
+            value={tuning.strategy}
+            onValueChange={(strategy) => onChange({ ...tuning, strategy: strategy as TuningConfig['strategy'] })}
+          >
+            <SelectTrigger id="tuning-strategy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="grid">Grid search</SelectItem>
+              <SelectItem value="random">Random search</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="tuning-budget">Trial budget</Label>
+          <Input
+            id="tuning-budget"
+            type="number"
+            min={1}
+            max={MAX_TRIALS}
+            step={1}
+            value={Number.isNaN(tuning.budget) ? '' : tuning.budget}
+            disabled={tuning.strategy === 'grid'}
+            onChange={(e) => onChange({ ...tuning, budget: e.target.valueAsNumber })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="tuning-metric">Optimize</Label>
+          <Select value={tuning.metric} onValueChange={(metric) => onChange({ ...tuning, metric })}>
+            <SelectTrigger id="tuning-metric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TUNING_METRICS[taskType].map(metric => (
+                <SelectItem key={metric.key} value={metric.key}>
+                  {metric.label} ({metric.higherIsBetter ? 'higher' : 'lower'} is better)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {controls.map(control => {
+          const dimension = tuning.dimensions.find(d => d.key === control.key);
+          const id = `tune-${modelType}-${control.key}`;
+
+          return (
+            <div
+              key={control.key}
+              className={cn('p-3 rounded-lg border border-border space-y-3', !dimension && 'bg-secondary/30')}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <Label htmlFor={id}>{control.label}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {dimension
+                      ? tuning.strategy === 'grid'
+                        ? `Tries ${dimensionValues(dimension).map(formatValue).join(', ')}`
+                        : 'Sampled at random from the range'
+                      : 'Kept at its configured value'}
+                  </p>
+                </div>
+                <Switch
+                  id={id}
+                  checked={!!dimension}
+                  onCheckedChange={(checked) => setDimension(control.key, checked ? defaultDimension(control) : null)}
+                />
+              </div>
+
+              {dimension?.kind === 'choice' && control.kind === 'select' && (
+                <div className="flex flex-wrap gap-4">
+                  {control.options.map(option => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={dimension.values.includes(option.value)}
+                        onCheckedChange={(checked) =>
+                          setDimension(control.key, {
+                            ...dimension,
+                            values: checked
+                              ? control.options.map(o => o.value).filter(v => v === option.value || dimension.values.includes(v))
+                              : dimension.values.filter(v => v !== option.value),
+                          })
+                        }
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {dimension?.kind === 'range' && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Min</Label>
+                    <Input
+                      type="number"
+                      value={Number.isNaN(dimension.min) ? '' : dimension.min}
+                      step={control.kind === 'select' ? undefined : control.step}
+                      onChange={(e) => setDimension(control.key, { ...dimension, min: e.target.valueAsNumber })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Max</Label>
+                    <Input
+                      type="number"
+                      value={Number.isNaN(dimension.max) ? '' : dimension.max}
+                      step={control.kind === 'select' ? undefined : control.step}
+                      onChange={(e) => setDimension(control.key, { ...dimension, max: e.target.valueAsNumber })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Grid steps</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={Number.isNaN(dimension.steps) ? '' : dimension.steps}
+                      disabled={tuning.strategy !== 'grid'}
+                      onChange={(e) => setDimension(control.key, { ...dimension, steps: e.target.valueAsNumber })}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm pb-2">
+                    <Switch
+                      checked={dimension.logScale}
+                      onCheckedChange={(logScale) => setDimension(control.key, { ...dimension, logScale })}
+                    />
+                    Log scale
+                  </label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {errors.length > 0 ? (
+        <p className="text-xs text-destructive">{errors[0]}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {trials} trial{trials === 1 ? '' : 's'} × {folds}-fold cross-validation on the training split ={' '}
+          {(trials * folds).toLocaleString()} fits, then the best configuration is retrained as the final model
+        </p>
+      )}
+    </div>
+  );
+}
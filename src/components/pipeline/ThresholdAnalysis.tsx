@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { SlidersHorizontal } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ClassificationResults } from '@/types/pipeline';
+import {
+  averagePrecision,
+  balancedAccuracy,
+  calculateAccuracy,
+  classificationReport,
+  confusionMatrix,
+  matthewsCorrelation,
+  precisionRecallCurve,
+  predictWithThreshold,
+  rocAucScore,
+  rocCurve,
+} from '@/lib/ml-utils';
+import { ConfusionMatrix } from './ConfusionMatrix';
+
+interface ThresholdAnalysisProps {
+  results: ClassificationResults;
+  probabilities: number[][];
+}
+
+// Curves can have one point per test row; thin them out for plotting
+const MAX_CURVE_POINTS = 200;
+
+const chartConfig = {
+  tpr: { label: 'True positive rate', color: 'hsl(var(--stage-results))' },
+  precision: { label: 'Precision', color: 'hsl(var(--stage-model))' },
+} satisfies ChartConfig;
+
+function thin<T>(points: T[]): T[] {
+  const step = Math.ceil(points.length / MAX_CURVE_POINTS);
+  if (step <= 1) return points;
+  return points.filter((_, i) => i % step === 0 || i === points.length - 1);
+}
+
+const score = (value: number) => value.toFixed(3);
+
+export function ThresholdAnalysis({ results, probabilities }: ThresholdAnalysisProps) {
+  const labels = results.classLabels;
+  const binary = labels.length === 2;
+  const [positiveClass, setPositiveClass] = useState(binary ? 1 : 0);
+  const [threshold, setThreshold] = useState(0.5);
+
+  const curves = useMemo(() => {
+    const positive = results.actuals.map(k => k === positiveClass);
+    const scores = probabilities.map(p => p[positiveClass]);
+    const pr = precisionRecallCurve(positive, scores);
+    return {
+      roc: thin(rocCurve(positive, scores)),
+      pr: thin(pr),
+      auc: rocAucScore(positive.map(Number), scores.map(s => [1 - s, s])),
+      ap: averagePrecision(pr),
+    };
+  }, [results.actuals, probabilities, positiveClass]);
+
+  // Binary problems only: relabel the test set at the chosen threshold
+  const live = useMemo(() => {
+    if (!binary) return null;
+    const predictions = predictWithThreshold(probabilities, threshold);
+    const matrix = confusionMatrix(results.actuals, predictions, 2);
+    const [[tn, fp], [fn, tp]] = matrix;
+    const positive = classificationReport(matrix).perClass[1];
+    return {
+      matrix,
+      fpr: tn + fp > 0 ? fp / (tn + fp) : 0,
+      tpr: tp + fn > 0 ? tp / (tp + fn) : 0,
+      metrics: [
+        { label: 'Accuracy', value: `${(calculateAccuracy(results.actuals, predictions) * 100).toFixed(2)}%` },
+        { label: 'Precision', value: score(positive.precision) },
+        { label: 'Recall', value: score(positive.recall) },
+        { label: 'F1', value: score(positive.f1) },
+        { label: 'Balanced Accuracy', value: `${(balancedAccuracy(matrix) * 100).toFixed(2)}%` },
+        { label: 'MCC', value: score(matthewsCorrelation(matrix)) },
+      ],
+    };
+  }, [binary, probabilities, threshold, results.actuals]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+    >
+      <Card className="p-5 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <SlidersHorizontal className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <h3 className="font-medium">ROC & Precision-Recall</h3>
+              <p className="text-xs text-muted-foreground">
+                {binary
+                  ? `Positive class "${labels[1]}" on the test set`
+                  : 'One class against the rest on the test set'}
+              </p>
+            </div>
+          </div>
+          {!binary && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="curve-class" className="text-sm">Class</Label>
+              <Select value={String(positiveClass)} onValueChange={(value) => setPositiveClass(Number(value))}>
+                <SelectTrigger id="curve-class" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {labels.map((label, k) => (
+                    <SelectItem key={k} value={String(k)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-medium">ROC Curve</span>
+              <span className="text-muted-foreground font-mono">
+                AUC {curves.auc === null ? '—' : score(curves.auc)}
+              </span>
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-square max-h-[300px] w-full">
+              <LineChart data={curves.roc} margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="fpr"
+                  domain={[0, 1]}
+                  tickFormatter={score}
+                  label={{ value: 'False positive rate', position: 'insideBottom', offset: -10 }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="tpr"
+                  domain={[0, 1]}
+                  tickFormatter={score}
+                  label={{ value: 'True positive rate', angle: -90, position: 'insideLeft' }}
+                />
+                <ReferenceLine
+                  segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={() => 'ROC'} />} />
+                <Line type="linear" dataKey="tpr" stroke="var(--color-tpr)" strokeWidth={2} dot={false} />
+                {live && (
+                  <ReferenceDot x={live.fpr} y={live.tpr} r={5} fill="var(--color-tpr)" stroke="hsl(var(--background))" />
+                )}
+              </LineChart>
+            </ChartContainer>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-medium">Precision-Recall Curve</span>
+              <span className="text-muted-foreground font-mono">AP {score(curves.ap)}</span>
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-square max-h-[300px] w-full">
+              <LineChart data={curves.pr} margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="recall"
+                  domain={[0, 1]}
+                  tickFormatter={score}
+                  label={{ value: 'Recall', position: 'insideBottom', offset: -10 }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="precision"
+                  domain={[0, 1]}
+                  tickFormatter={score}
+                  label={{ value: 'Precision', angle: -90, position: 'insideLeft' }}
+                />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={() => 'Precision-recall'} />} />
+                <Line type="stepAfter" dataKey="precision" stroke="var(--color-precision)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        </div>
+
+        {live && (
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <Label>Decision threshold</Label>
+                <span className="font-mono text-stage-results">{threshold.toFixed(2)}</span>
+              </div>
+              <Slider
+                value={[threshold]}
+                onValueChange={([value]) => setThreshold(value)}
+                min={0.01}
+                max={0.99}
+                step={0.01}
+                className="py-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                Rows are labelled "{labels[1]}" when its probability is at least the threshold
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+              {live.metrics.map(metric => (
+                <div key={metric.label} className="p-3 rounded-lg bg-secondary/50">
+                  <p className="text-xs text-muted-foreground">{metric.label}</p>
+                  <p className="font-semibold">{metric.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <ConfusionMatrix matrix={live.matrix} labels={labels} />
+          </div>
+        )}
+      </Card>
+    </motion.div>
+  );
+}
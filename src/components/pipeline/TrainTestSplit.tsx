@@ -1,36 +1,64 @@
 import { motion } from 'framer-motion';
-import { SplitSquareVertical, ChevronRight, ChevronLeft, Target, Columns } from 'lucide-react';
+import { SplitSquareVertical, ChevronRight, ChevronLeft, Target, Columns, Repeat, Dices } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Dataset } from '@/types/pipeline';
+import { CrossValidationConfig, Dataset, TaskType } from '@/types/pipeline';
+import { randomSeed } from '@/lib/pipeline';
 import { cn } from '@/lib/utils';
 
 interface TrainTestSplitProps {
   dataset: Dataset;
+  taskType: TaskType;
   splitRatio: number;
+  seed: number;
+  stratify: boolean;
   targetColumn: string | null;
   featureColumns: string[];
+  crossValidation: CrossValidationConfig;
+  onTaskTypeChange: (taskType: TaskType) => void;
   onSplitRatioChange: (ratio: number) => void;
+  onSeedChange: (seed: number) => void;
+  onStratifyChange: (stratify: boolean) => void;
   onTargetColumnChange: (column: string) => void;
   onFeatureColumnsChange: (columns: string[]) => void;
+  onCrossValidationChange: (crossValidation: CrossValidationConfig) => void;
   onNext: () => void;
   onBack: () => void;
 }
 
+const taskTypes: { id: TaskType; name: string; description: string }[] = [
+  { id: 'classification', name: 'Classification', description: 'Predict a category' },
+  { id: 'regression', name: 'Regression', description: 'Predict a continuous value' },
+];
+
 export function TrainTestSplit({
   dataset,
+  taskType,
   splitRatio,
+  seed,
+  stratify,
   targetColumn,
   featureColumns,
+  crossValidation,
+  onTaskTypeChange,
   onSplitRatioChange,
+  onSeedChange,
+  onStratifyChange,
   onTargetColumnChange,
   onFeatureColumnsChange,
+  onCrossValidationChange,
   onNext,
   onBack,
 }: TrainTestSplitProps) {
-  const numericColumns = dataset.columns.filter(c => c.type === 'numeric');
+  // Regression needs a numeric target; features may be of any type
+  const targetOptions = taskType === 'regression'
+    ? dataset.columns.filter(c => c.type === 'numeric')
+    : dataset.columns;
   const trainSize = Math.floor(dataset.rows * (1 - splitRatio));
   const testSize = dataset.rows - trainSize;
 
@@ -44,7 +72,7 @@ export function TrainTestSplit({
   };
 
   const selectAllFeatures = () => {
-    onFeatureColumnsChange(numericColumns.filter(c => c.name !== targetColumn).map(c => c.name));
+    onFeatureColumnsChange(dataset.columns.filter(c => c.name !== targetColumn).map(c => c.name));
   };
 
   const canContinue = targetColumn && featureColumns.length > 0;
@@ -79,13 +107,32 @@ export function TrainTestSplit({
               <SelectValue placeholder="Select target column" />
             </SelectTrigger>
             <SelectContent>
-              {numericColumns.map(col => (
+              {targetOptions.map(col => (
                 <SelectItem key={col.name} value={col.name}>
                   {col.name}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          <div className="grid grid-cols-2 gap-2 mt-4">
+            {taskTypes.map(t => (
+              <button
+                key={t.id}
+                onClick={() => onTaskTypeChange(t.id)}
+                className={cn(
+                  'px-3 py-2 rounded-lg text-left transition-all border',
+                  taskType === t.id
+                    ? 'bg-stage-split/20 border-stage-split'
+                    : 'bg-secondary border-transparent hover:border-border'
+                )}
+              >
+                <span className={cn('block text-sm font-medium', taskType === t.id ? 'text-stage-split' : 'text-muted-foreground')}>
+                  {t.name}
+                </span>
+                <span className="block text-xs text-muted-foreground">{t.description}</span>
+              </button>
+            ))}
+          </div>
         </Card>
 
         {/* Split Ratio */}
@@ -120,6 +167,50 @@ export function TrainTestSplit({
                 <span className="text-muted-foreground">({testSize.toLocaleString()} rows)</span>
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-4 pt-2 border-t border-border">
+              <div className="space-y-1.5 pt-2">
+                <Label htmlFor="split-seed">Random seed</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="split-seed"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={seed}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      onSeedChange(Number.isNaN(value) ? 0 : Math.abs(value) % 2 ** 32);
+                    }}
+                    className="font-mono"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => onSeedChange(randomSeed())}
+                    title="Pick a random seed"
+                  >
+                    <Dices className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-[11px] text-muted-foreground">Same seed, same split and model</p>
+              </div>
+              <div className="space-y-1.5 pt-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="split-stratify">Stratify</Label>
+                  <Switch
+                    id="split-stratify"
+                    checked={taskType === 'classification' && stratify}
+                    disabled={taskType !== 'classification'}
+                    onCheckedChange={onStratifyChange}
+                  />
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  {taskType === 'classification'
+                    ? 'Keep each class\'s share equal in train and test'
+                    : 'Only available for classification'}
+                </p>
+              </div>
+            </div>
           </div>
         </Card>
       </div>
@@ -143,7 +234,7 @@ export function TrainTestSplit({
           </Button>
         </div>
         <div className="flex flex-wrap gap-2">
-          {numericColumns.map(col => {
+          {dataset.columns.map(col => {
             const isTarget = col.name === targetColumn;
             const isSelected = featureColumns.includes(col.name);
 
@@ -160,15 +251,72 @@ export function TrainTestSplit({
                 )}
               >
                 {col.name}
+                {col.type !== 'numeric' && (
+                  <span className="ml-1.5 text-[10px] uppercase tracking-wide opacity-70">cat</span>
+                )}
                 {isTarget && ' (target)'}
               </button>
             );
           })}
         </div>
-        {numericColumns.length === 0 && (
-          <p className="text-sm text-muted-foreground text-center py-4">
-            No numeric columns found in dataset
-          </p>
+      </Card>
+
+      {/* Cross-Validation */}
+      <Card className="p-5">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-secondary flex items-center justify-center">
+              <Repeat className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <div>
+              <h3 className="font-medium">Cross-Validation</h3>
+              <p className="text-xs text-muted-foreground">
+                Train and score the model on k folds of the training data for steadier estimates
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={crossValidation.enabled}
+            onCheckedChange={(enabled) => onCrossValidationChange({ ...crossValidation, enabled })}
+            aria-label="Enable cross-validation"
+          />
+        </div>
+        {crossValidation.enabled && (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <Label>Folds (k)</Label>
+                <span className="font-mono text-stage-split">{crossValidation.folds}</span>
+              </div>
+              <Slider
+                value={[crossValidation.folds]}
+                onValueChange={([folds]) => onCrossValidationChange({ ...crossValidation, folds })}
+                min={2}
+                max={10}
+                step={1}
+                className="py-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                ≈{Math.floor(trainSize / crossValidation.folds).toLocaleString()} training rows held out per fold
+              </p>
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Label htmlFor="cv-stratified">Stratified folds</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {taskType === 'classification'
+                    ? 'Keep class proportions the same in every fold'
+                    : 'Only available for classification'}
+                </p>
+              </div>
+              <Switch
+                id="cv-stratified"
+                checked={taskType === 'classification' && crossValidation.stratified}
+                disabled={taskType !== 'classification'}
+                onCheckedChange={(stratified) => onCrossValidationChange({ ...crossValidation, stratified })}
+              />
+            </div>
+          </div>
         )}
       </Card>
 
@@ -179,10 +327,18 @@ export function TrainTestSplit({
           <motion.div
             initial={{ width: 0 }}
             animate={{ width: `${(1 - splitRatio) * 100}%` }}
-            className="bg-stage-data flex items-center justify-center"
+            className="bg-stage-data flex items-center justify-center relative"
           >
-            <span className="text-xs font-medium text-primary-foreground">
-              Training Data
+            {crossValidation.enabled &&
+              Array.from({ length: crossValidation.folds - 1 }, (_, i) => (
+                <div
+                  key={i}
+                  className="absolute inset-y-0 w-px bg-background/60"
+                  style={{ left: `${((i + 1) / crossValidation.folds) * 100}%` }}
+                />
+              ))}
+            <span className="text-xs font-medium text-primary-foreground relative">
+              {crossValidation.enabled ? `Training Data · ${crossValidation.folds} folds` : 'Training Data'}
             </span>
           </motion.div>
           <motion.div
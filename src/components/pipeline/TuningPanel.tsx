@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Search } from 'lucide-react';
+import { CartesianGrid, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ModelType, TaskType, TuningResults } from '@/types/pipeline';
+import { HYPERPARAMETER_CONTROLS } from '@/lib/hyperparameters';
+import { TUNING_METRICS } from '@/lib/tuning';
+import { cn } from '@/lib/utils';
+
+interface TuningPanelProps {
+  tuning: TuningResults;
+  modelType: ModelType;
+  taskType: TaskType;
+}
+
+const chartConfig = {
+  trial: { label: 'Trial', color: 'hsl(var(--stage-model))' },
+  best: { label: 'Best trial', color: 'hsl(var(--stage-results))' },
+} satisfies ChartConfig;
+
+const formatScore = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+const formatValue = (value: number | string) =>
+  typeof value === 'number' ? value.toLocaleString(undefined, { maximumSignificantDigits: 4 }) : value;
+
+export function TuningPanel({ tuning, modelType, taskType }: TuningPanelProps) {
+  const { trials, bestTrial } = tuning;
+  const keys = Object.keys(trials[0]?.hyperparameters ?? {});
+  const [parameter, setParameter] = useState(keys[0]);
+
+  const labelOf = (key: string) => HYPERPARAMETER_CONTROLS[modelType].find(c => c.key === key)?.label ?? key;
+  const metricLabel = TUNING_METRICS[taskType].find(m => m.key === tuning.metric)?.label ?? tuning.metric;
+
+  // Best trial first
+  const ranked = useMemo(
+    () =>
+      trials
+        .map((trial, index) => ({ ...trial, index }))
+        .sort((a, b) => (tuning.higherIsBetter ? b.score.mean - a.score.mean : a.score.mean - b.score.mean)),
+    [trials, tuning.higherIsBetter]
+  );
+
+  const categorical = trials.some(trial => typeof trial.hyperparameters[parameter] === 'string');
+  const points = trials.map((trial, index) => ({
+    value: trial.hyperparameters[parameter],
+    score: trial.score.mean,
+    index,
+  }));
+  const categories = categorical ? [...new Set(points.map(p => String(p.value)))] : undefined;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-5 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-stage-model/20 flex items-center justify-center">
+              <Search className="w-5 h-5 text-stage-model" />
+            </div>
+            <div>
+              <h3 className="font-medium">Hyperparameter Search</h3>
+              <p className="text-xs text-muted-foreground">
+                {tuning.strategy === 'grid' ? 'Grid' : 'Random'} search · {trials.length} trials · {metricLabel} from{' '}
+                {tuning.folds}-fold cross-validation on the training split
+              </p>
+            </div>
+          </div>
+          {keys.length > 1 && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="tuning-parameter" className="text-sm">Parameter</Label>
+              <Select value={parameter} onValueChange={setParameter}>
+                <SelectTrigger id="tuning-parameter" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {keys.map(key => (
+                    <SelectItem key={key} value={key}>{labelOf(key)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-[2/1] max-h-[320px] w-full">
+          <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type={categorical ? 'category' : 'number'}
+              dataKey="value"
+              name={labelOf(parameter)}
+              allowDuplicatedCategory={false}
+              ticks={categories}
+              domain={categorical ? undefined : ['auto', 'auto']}
+              tickFormatter={formatValue}
+              label={{ value: labelOf(parameter), position: 'insideBottom', offset: -10 }}
+            />
+            <YAxis
+              type="number"
+              dataKey="score"
+              domain={['auto', 'auto']}
+              tickFormatter={formatScore}
+              label={{ value: `CV ${metricLabel}`, angle: -90, position: 'insideLeft' }}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  hideIndicator
+                  labelFormatter={(_, payload) => `Trial ${(payload?.[0]?.payload.index ?? 0) + 1}`}
+                />
+              }
+            />
+            <Scatter data={points.filter(p => p.index !== bestTrial)} fill="var(--color-trial)" fillOpacity={0.6} />
+            <Scatter data={points.filter(p => p.index === bestTrial)} fill="var(--color-best)" />
+          </ScatterChart>
+        </ChartContainer>
+
+        <div className="max-h-80 overflow-auto rounded-lg border border-border">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Trial</th>
+                {keys.map(key => (
+                  <th key={key} className="whitespace-nowrap">{labelOf(key)}</th>
+                ))}
+                <th className="whitespace-nowrap">CV {metricLabel}</th>
+                <th>Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map(trial => (
+                <tr key={trial.index} className={cn(trial.index === bestTrial && 'bg-stage-results/10 font-semibold')}>
+                  <td>{trial.index + 1}{trial.index === bestTrial && ' ★'}</td>
+                  {keys.map(key => (
+                    <td key={key}>{formatValue(trial.hyperparameters[key])}</td>
+                  ))}
+                  <td className="whitespace-nowrap">
+                    {formatScore(trial.score.mean)}
+                    <span className="text-muted-foreground"> ± {formatScore(trial.score.std)}</span>
+                  </td>
+                  <td>{(trial.time / 1000).toFixed(2)} s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The starred trial was retrained on the whole training split to give the final model and the test
+          metrics above.
+        </p>
+      </Card>
+    </motion.div>
+  );
+}
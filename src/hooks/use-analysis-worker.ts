@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  Dataset,
+  DependenceCurve,
+  DependenceSurface,
+  Explanation,
+  PipelineConfig,
+  ScoredTestSet,
+  TrainedModel,
+} from '@/types/pipeline';
+
+// Rejects a run that a newer request or an unmount replaced
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+interface PendingRun {
+  worker: Worker;
+  reject: (error: Error) => void;
+}
+
+type ResultMessage = Exclude<AnalysisWorkerResponse, { type: 'error' }>;
+
+// Runs one analysis at a time in a dedicated Web Worker. Starting another
+// terminates the one in flight, so only the latest selection is computed.
+export function useAnalysisWorker() {
+  const pending = useRef<PendingRun | null>(null);
+
+  const run = useCallback(
+    (request: AnalysisWorkerRequest) =>
+      new Promise<ResultMessage>((resolve, reject) => {
+        pending.current?.reject(new AnalysisCancelledError());
+        pending.current?.worker.terminate();
+
+        const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+        pending.current = { worker, reject };
+        const finish = () => {
+          worker.terminate();
+          if (pending.current?.worker === worker) pending.current = null;
+        };
+
+        worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+          const message = event.data;
+          finish();
+          if (message.type === 'error') {
+            reject(new Error(message.message));
+          } else {
+            resolve(message);
+          }
+        };
+        worker.onerror = (event) => {
+          event.preventDefault();
+          finish();
+          reject(new Error(event.message || 'Analysis worker crashed'));
+        };
+
+        worker.postMessage(request);
+      }),
+    []
+  );
+
+  // Recover and score the test rows of the split the model was trained on
+  const scoreTestSet = useCallback(
+    async (model: TrainedModel, dataset: Dataset, config: PipelineConfig): Promise<ScoredTestSet> => {
+      const message = await run({ type: 'score_test_set', model, dataset, config });
+      if (message.type !== 'test_set_scored') throw new Error('Unexpected response from the analysis worker');
+      return message.testSet;
+    },
+    [run]
+  );
+
+  // Explain one preprocessed row against the preprocessed training rows
+  const explain = useCallback(
+    async (model: TrainedModel, x: number[], background: number[][], seed: number): Promise<Explanation> => {
+      const message = await run({ type: 'explain', model, x, background, seed });
+      if (message.type !== 'explained') throw new Error('Unexpected response from the analysis worker');
+      return message.explanation;
+    },
+    [run]
+  );
+
+  // Partial dependence and ICE curves over preprocessed training rows
+  const dependenceCurve = useCallback(
+    async (
+      model: TrainedModel,
+      background: number[][],
+      column: string,
+      classIndex: number | null,
+      seed: number
+    ): Promise<DependenceCurve> => {
+      const message = await run({ type: 'dependence_curve', model, background, column, classIndex, seed });
+      if (message.type !== 'dependence_curve') throw new Error('Unexpected response from the analysis worker');
+      return message.curve;
+    },
+    [run]
+  );
+
+  const dependenceSurface = useCallback(
+    async (
+      model: TrainedModel,
+      background: number[][],
+      columns: [string, string],
+      classIndex: number | null,
+      seed: number
+    ): Promise<DependenceSurface> => {
+      const message = await run({ type: 'dependence_surface', model, background, columns, classIndex, seed });
+      if (message.type !== 'dependence_surface') throw new Error('Unexpected response from the analysis worker');
+      return message.surface;
+    },
+    [run]
+  );
+
+  useEffect(
+    () => () => {
+      pending.current?.reject(new AnalysisCancelledError());
+      pending.current?.worker.terminate();
+    },
+    []
+  );
+
+  return { scoreTestSet, explain, dependenceCurve, dependenceSurface };
+}
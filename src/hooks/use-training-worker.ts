@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ComparisonCandidate,
+  ComparisonEntry,
+  Dataset,
+  PipelineConfig,
+  TrainedModel,
+  TrainingProgress,
+  TrainingResults,
+  TrainingWorkerRequest,
+  TrainingWorkerResponse,
+  TuningConfig,
+} from '@/types/pipeline';
+
+export class TrainingCancelledError extends Error {
+  constructor() {
+    super('Training cancelled');
+    this.name = 'TrainingCancelledError';
+  }
+}
+
+interface PendingRun {
+  worker: Worker;
+  reject: (error: Error) => void;
+}
+
+type ResultMessage = Exclude<TrainingWorkerResponse, { type: 'progress' } | { type: 'error' }>;
+
+// Trains pipelines in a dedicated Web Worker. Each run gets a fresh worker so
+// cancelling can simply terminate it mid-computation.
+export function useTrainingWorker() {
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+  const pending = useRef<PendingRun | null>(null);
+
+  const finish = useCallback((worker: Worker) => {
+    worker.terminate();
+    if (pending.current?.worker === worker) {
+      pending.current = null;
+      setProgress(null);
+    }
+  }, []);
+
+  const run = useCallback(
+    (request: TrainingWorkerRequest) =>
+      new Promise<ResultMessage>((resolve, reject) => {
+        pending.current?.reject(new TrainingCancelledError());
+        pending.current?.worker.terminate();
+
+        const worker = new Worker(new URL('../workers/training.worker.ts', import.meta.url), { type: 'module' });
+        pending.current = { worker, reject };
+        setProgress({ phase: 'preprocessing', fraction: 0, detail: 'Starting worker' });
+
+        worker.onmessage = (event: MessageEvent<TrainingWorkerResponse>) => {
+          const message = event.data;
+          if (message.type === 'progress') {
+            if (pending.current?.worker === worker) setProgress(message.progress);
+            return;
+          }
+          finish(worker);
+          if (message.type === 'error') {
+            reject(new Error(message.message));
+          } else {
+            resolve(message);
+          }
+        };
+        worker.onerror = (event) => {
+          event.preventDefault();
+          finish(worker);
+          reject(new Error(event.message || 'Training worker crashed'));
+        };
+
+        worker.postMessage(request);
+      }),
+    [finish]
+  );
+
+  const train = useCallback(
+    async (dataset: Dataset, config: PipelineConfig): Promise<{ results: TrainingResults; model: TrainedModel }> => {
+      const message = await run({ type: 'train', dataset, config });
+      if (message.type !== 'trained') throw new Error('Unexpected response from the training worker');
+      return { results: message.results, model: message.model };
+    },
+    [run]
+  );
+
+  // Train several model/preprocessing candidates on the same split
+  const compare = useCallback(
+    async (dataset: Dataset, config: PipelineConfig, candidates: ComparisonCandidate[]): Promise<ComparisonEntry[]> => {
+      const message = await run({ type: 'compare', dataset, config, candidates });
+      if (message.type !== 'compared') throw new Error('Unexpected response from the training worker');
+      return message.entries;
+    },
+    [run]
+  );
+
+  // Search hyperparameters, then train the best configuration
+  const tune = useCallback(
+    async (
+      dataset: Dataset,
+      config: PipelineConfig,
+      tuning: TuningConfig
+    ): Promise<{ results: TrainingResults; model: TrainedModel }> => {
+      const message = await run({ type: 'tune', dataset, config, tuning });
+      if (message.type !== 'trained') throw new Error('Unexpected response from the training worker');
+      return { results: message.results, model: message.model };
+    },
+    [run]
+  );
+
+  const cancel = useCallback(() => {
+    const current = pending.current;
+    if (!current) return;
+    finish(current.worker);
+    current.reject(new TrainingCancelledError());
+  }, [finish]);
+
+  useEffect(() => () => pending.current?.worker.terminate(), []);
+
+  return { train, compare, tune, cancel, progress };
+}
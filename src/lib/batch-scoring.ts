@@ -0,0 +1,72 @@
+// Scoring a new file with a trained model
+import { TrainedModel } from '@/types/pipeline';
+import { categoryKey, isMissing, parseNumeric } from '@/lib/ml-utils';
+import { predictFeatures, predictProbaFeatures, transformRows } from '@/lib/pipeline';
+
+export interface FeatureColumnReport {
+  rows: number;
+  missingColumns: string[];
+  extraColumns: string[];
+  // Numeric features holding values that are neither numbers nor blank
+  invalidNumeric: { column: string; count: number }[];
+  // Categorical features holding categories the model never saw
+  unseenCategories: { column: string; values: string[] }[];
+}
+
+// Compare a file's columns against the model's feature columns. Rows can be
+// scored as long as no feature column is missing; the rest are warnings.
+export function checkFeatureColumns(model: TrainedModel, rows: Record<string, unknown>[]): FeatureColumnReport {
+  const fileColumns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const { numericColumns, categorical } = model.preprocessing;
+
+  const missingColumns = model.featureColumns.filter(name => !fileColumns.includes(name));
+  const present = model.featureColumns.filter(name => fileColumns.includes(name));
+
+  const invalidNumeric = present
+    .filter(name => numericColumns.includes(name))
+    .map(column => ({
+      column,
+      count: rows.filter(row => !isMissing(row[column]) && isNaN(parseNumeric(row[column]))).length,
+    }))
+    .filter(entry => entry.count > 0);
+
+  const unseenCategories = present
+    .filter(name => !numericColumns.includes(name))
+    .map(column => {
+      const known = new Set(categorical[column].encoder.categories);
+      const values = [...new Set(
+        rows.filter(row => !isMissing(row[column])).map(row => categoryKey(row[column]))
+      )].filter(value => !known.has(value));
+      return { column, values };
+    })
+    .filter(entry => entry.values.length > 0);
+
+  return {
+    rows: rows.length,
+    missingColumns,
+    extraColumns: fileColumns.filter(name => !model.featureColumns.includes(name)),
+    invalidNumeric,
+    unseenCategories,
+  };
+}
+
+// Original rows with the prediction (and, where available, the probability
+// of the predicted class) appended
+export function scoreRows(model: TrainedModel, rows: Record<string, unknown>[]): Record<string, unknown>[] {
+  const X = transformRows(rows, model.preprocessing);
+  const predictions = predictFeatures(model, X);
+  const probabilities = predictProbaFeatures(model, X);
+  const predictionColumn = `${model.targetColumn}_prediction`;
+  const probabilityColumn = `${model.targetColumn}_probability`;
+
+  return rows.map((row, i) => {
+    const scored: Record<string, unknown> = {
+      ...row,
+      [predictionColumn]: model.classLabels ? model.classLabels[predictions[i]] : predictions[i],
+    };
+    if (probabilities) {
+      scored[probabilityColumn] = Number(probabilities[i][predictions[i]].toFixed(4));
+    }
+    return scored;
+  });
+}
@@ -0,0 +1,38 @@
+// Reading CSV and Excel files into row objects
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+
+export const SUPPORTED_DATA_EXTENSIONS = ['csv', 'xlsx', 'xls'];
+
+export function readDataFile(file: File): Promise<Record<string, unknown>[]> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    return new Promise((resolve, reject) => {
+      Papa.parse(file, {
+        header: true,
+        skipEmptyLines: true,
+        complete: (results) => resolve(results.data as Record<string, unknown>[]),
+        error: (err) => reject(new Error(`Failed to parse CSV: ${err.message}`)),
+      });
+    });
+  }
+
+  if (extension === 'xlsx' || extension === 'xls') {
+    return file.arrayBuffer()
+      .then(buffer => {
+        const workbook = XLSX.read(buffer, { type: 'array' });
+        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+        return XLSX.utils.sheet_to_json(firstSheet) as Record<string, unknown>[];
+      })
+      .catch(() => {
+        throw new Error('Failed to read file. Please check the file format.');
+      });
+  }
+
+  return Promise.reject(new Error('Unsupported file format. Please upload a CSV or Excel file.'));
+}
+
+export function toCsv(rows: Record<string, unknown>[]): string {
+  return Papa.unparse(rows);
+}
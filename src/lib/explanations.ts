@@ -0,0 +1,145 @@
+// Local explanations: how much each feature column moved one prediction away
+// from the model's average output. Logistic regression, single trees and
+// forest regressors are explained exactly; every other model by sampled
+// Shapley values.
+import { Dataset, Explanation, PipelineConfig, ScoredTestSet, TrainedModel, TreeNode } from '@/types/pipeline';
+import { featureColumnGroups, predictFeatures, predictProbaFeatures, splitRows, transformRows } from '@/lib/pipeline';
+import { Random, samplingShapley, treePathContributions } from '@/lib/ml-utils';
+
+// Sampled Shapley values score two rows per ordering and column. The budget
+// bounds those model calls on wide datasets; each column still gets at least
+// MIN_SHAPLEY_SAMPLES orderings.
+const SHAPLEY_BUDGET = 4000;
+const MIN_SHAPLEY_SAMPLES = 10;
+const MAX_SHAPLEY_SAMPLES = 100;
+
+// Random orderings drawn per feature column
+export function shapleySamples(columns: number): number {
+  return Math.max(MIN_SHAPLEY_SAMPLES, Math.min(MAX_SHAPLEY_SAMPLES, Math.floor(SHAPLEY_BUDGET / (2 * columns))));
+}
+
+// Background rows used to estimate the average model output
+const MAX_REFERENCE_ROWS = 500;
+
+// Sum per-feature values into their raw feature columns
+function byColumn(values: number[], model: TrainedModel): number[] {
+  return featureColumnGroups(model.preprocessing).map(group => group.reduce((sum, j) => sum + values[j], 0));
+}
+
+function columnMeans(X: number[][]): number[] {
+  return (X[0] ?? []).map((_, j) => X.reduce((sum, row) => sum + row[j], 0) / X.length);
+}
+
+// Node output used for path contributions: the share of the explained class
+// or the mean target
+function nodeOutput(classIndex: number | null) {
+  return (node: TreeNode): number => {
+    if (classIndex === null) return node.value![0];
+    const total = node.value!.reduce((a, b) => a + b, 0);
+    return total > 0 ? (node.value![classIndex] ?? 0) / total : 0;
+  };
+}
+
+// Trees saved before node values were recorded cannot be explained by path
+function hasNodeValues(node: TreeNode): boolean {
+  if (!node.value) return false;
+  return node.prediction !== undefined || (hasNodeValues(node.left!) && hasNodeValues(node.right!));
+}
+
+// The model output as one number per row: the regression prediction or the
+// probability of a class. Classifiers without probabilities give their 0/1
+// vote for the class.
+export function modelOutput(model: TrainedModel, classIndex: number | null): (X: number[][]) => number[] {
+  return (X) => {
+    if (classIndex === null) return predictFeatures(model, X);
+    const probabilities = predictProbaFeatures(model, X);
+    return probabilities
+      ? probabilities.map(p => p[classIndex])
+      : predictFeatures(model, X).map(label => (label === classIndex ? 1 : 0));
+  };
+}
+
+// Recover the test rows from the seeded split and score them. Distance
+// based models compare every test row with every training row, so this runs
+// in the analysis worker.
+export function scoreTestSet(model: TrainedModel, dataset: Dataset, config: PipelineConfig): ScoredTestSet {
+  const { trainRows, testRows } = splitRows(dataset, config);
+  const X_test = transformRows(testRows, model.preprocessing);
+  return {
+    testRows,
+    X_test,
+    background: transformRows(trainRows, model.preprocessing),
+    predictions: predictFeatures(model, X_test),
+    probabilities: predictProbaFeatures(model, X_test),
+  };
+}
+
+// x is one preprocessed row; background holds preprocessed training rows
+export function explainPrediction(
+  model: TrainedModel,
+  x: number[],
+  background: number[][],
+  random: Random
+): Explanation {
+  const classIndex = model.classLabels ? predictFeatures(model, [x])[0] : null;
+
+  // Exact in log-odds space: w·x − w·mean splits into one term per feature.
+  // Binary models hold only the class 1 weights; class 0 has the negated logit.
+  if (model.modelType === 'logistic') {
+    const binary = model.weights.length === 1;
+    const row = binary ? 0 : classIndex!;
+    const sign = binary && classIndex === 0 ? -1 : 1;
+    const weights = model.weights[row];
+    const means = columnMeans(background);
+    const contributions = byColumn(weights.map((w, j) => sign * w * (x[j] - means[j])), model);
+    const baseValue = sign * (model.biases[row] + weights.reduce((sum, w, j) => sum + w * means[j], 0));
+    return {
+      method: 'linear',
+      output: 'log_odds',
+      classIndex,
+      baseValue,
+      contributions,
+      value: baseValue + contributions.reduce((a, b) => a + b, 0),
+    };
+  }
+
+  // Path contributions, averaged over the trees of a forest regressor. Forest
+  // classifiers predict by their trees' vote share, which no path sums to, so
+  // they are sampled like the remaining models.
+  const trees = model.modelType === 'decision_tree'
+    ? [model.tree]
+    : model.modelType === 'random_forest' && classIndex === null ? model.trees : [];
+  if (trees.length > 0 && trees.every(hasNodeValues)) {
+    const output = nodeOutput(classIndex);
+    const paths = trees.map(tree => treePathContributions(x, tree, output));
+    const baseValue = paths.reduce((sum, path) => sum + path.base, 0) / trees.length;
+    const contributions = byColumn(
+      x.map((_, j) => paths.reduce((sum, path) => sum + path.contributions[j], 0) / trees.length),
+      model
+    );
+    return {
+      method: 'tree_path',
+      output: classIndex === null ? 'value' : 'probability',
+      classIndex,
+      baseValue,
+      contributions,
+      value: baseValue + contributions.reduce((a, b) => a + b, 0),
+    };
+  }
+
+  const f = modelOutput(model, classIndex);
+  const groups = featureColumnGroups(model.preprocessing);
+  const reference = background.length <= MAX_REFERENCE_ROWS
+    ? background
+    : Array.from({ length: MAX_REFERENCE_ROWS }, () => background[Math.floor(random() * background.length)]);
+  const referenceOutputs = f(reference);
+
+  return {
+    method: 'sampling',
+    output: classIndex === null ? 'value' : 'probability',
+    classIndex,
+    baseValue: referenceOutputs.reduce((a, b) => a + b, 0) / referenceOutputs.length,
+    contributions: samplingShapley(f, x, background, groups, shapleySamples(groups.length), random),
+    value: f([x])[0],
+  };
+}
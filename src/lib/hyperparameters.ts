@@ -0,0 +1,426 @@
+// Hyperparameter defaults, UI control definitions and validation
+import { ModelHyperparameters, ModelType } from '@/types/pipeline';
+
+// Defaults for the original models match the values they were trained with
+// before hyperparameters became configurable
+export const DEFAULT_HYPERPARAMETERS: ModelHyperparameters = {
+  logistic: { learningRate: 0.1, iterations: 1000, regularization: 'none', regularizationStrength: 0.01 },
+  decision_tree: { maxDepth: 5, minSamplesSplit: 2, minSamplesLeaf: 1, maxFeatures: 'all' },
+  random_forest: { numTrees: 50, maxDepth: 8, maxFeatures: 'sqrt' },
+  gradient_boosting: {
+    learningRate: 0.1,
+    numEstimators: 100,
+    maxDepth: 3,
+    subsample: 1,
+    validationFraction: 0.1,
+    patience: 10,
+  },
+  knn: { k: 5, metric: 'euclidean', weighting: 'uniform' },
+  gaussian_nb: { varSmoothing: 1e-9 },
+  categorical_nb: { alpha: 1, bins: 5 },
+  linear_svm: { learningRate: 0.01, epochs: 50, regularizationStrength: 0.01 },
+  mlp: { hiddenLayers: 1, hiddenUnits: 32, activation: 'relu', epochs: 100, batchSize: 32, learningRate: 0.01 },
+  linear: {},
+  ridge: { alpha: 1 },
+};
+
+type HyperparameterValues = Record<string, number | string>;
+
+interface ControlBase {
+  key: string;
+  label: string;
+  description: string;
+  // Controls that only matter for some settings are disabled otherwise
+  isActive?: (values: HyperparameterValues) => boolean;
+}
+
+export type HyperparameterControl =
+  | (ControlBase & { kind: 'slider' | 'number'; min: number; max: number; step: number; integer: boolean })
+  | (ControlBase & { kind: 'select'; options: { value: string; label: string }[] });
+
+const MAX_FEATURES_OPTIONS = [
+  { value: 'all', label: 'All features' },
+  { value: 'sqrt', label: '√ features' },
+  { value: 'log2', label: 'log₂ features' },
+];
+
+export const HYPERPARAMETER_CONTROLS: Record<ModelType, HyperparameterControl[]> = {
+  logistic: [
+    {
+      key: 'learningRate',
+      label: 'Learning rate',
+      description: 'Step size of each gradient descent update',
+      kind: 'number',
+      min: 0.0001,
+      max: 10,
+      step: 0.01,
+      integer: false,
+    },
+    {
+      key: 'iterations',
+      label: 'Iterations',
+      description: 'Gradient descent passes over the training data',
+      kind: 'slider',
+      min: 100,
+      max: 5000,
+      step: 100,
+      integer: true,
+    },
+    {
+      key: 'regularization',
+      label: 'Regularization',
+      description: 'L1 drives weights to exactly zero, L2 shrinks them smoothly',
+      kind: 'select',
+      options: [
+        { value: 'none', label: 'None' },
+        { value: 'l1', label: 'L1 (Lasso)' },
+        { value: 'l2', label: 'L2 (Ridge)' },
+      ],
+    },
+    {
+      key: 'regularizationStrength',
+      label: 'Regularization strength (λ)',
+      description: 'Weight of the penalty term in the loss',
+      kind: 'number',
+      min: 0,
+      max: 100,
+      step: 0.01,
+      integer: false,
+      isActive: values => values.regularization !== 'none',
+    },
+  ],
+  decision_tree: [
+    {
+      key: 'maxDepth',
+      label: 'Max depth',
+      description: 'Longest path from the root to a leaf',
+      kind: 'slider',
+      min: 1,
+      max: 20,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'minSamplesSplit',
+      label: 'Min samples to split',
+      description: 'Nodes with fewer samples become leaves',
+      kind: 'slider',
+      min: 2,
+      max: 50,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'minSamplesLeaf',
+      label: 'Min samples per leaf',
+      description: 'Splits leaving fewer samples on either side are skipped',
+      kind: 'slider',
+      min: 1,
+      max: 50,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'maxFeatures',
+      label: 'Max features',
+      description: 'Features considered at each split, drawn at random',
+      kind: 'select',
+      options: MAX_FEATURES_OPTIONS,
+    },
+  ],
+  random_forest: [
+    {
+      key: 'numTrees',
+      label: 'Number of trees',
+      description: 'More trees give steadier votes but train slower',
+      kind: 'slider',
+      min: 5,
+      max: 200,
+      step: 5,
+      integer: true,
+    },
+    {
+      key: 'maxDepth',
+      label: 'Max depth',
+      description: 'Longest path from the root to a leaf in each tree',
+      kind: 'slider',
+      min: 1,
+      max: 20,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'maxFeatures',
+      label: 'Max features',
+      description: 'Features each split may choose from, drawn at random',
+      kind: 'select',
+      options: MAX_FEATURES_OPTIONS,
+    },
+  ],
+  gradient_boosting: [
+    {
+      key: 'learningRate',
+      label: 'Learning rate',
+      description: 'Shrinks each tree\'s contribution; lower needs more rounds',
+      kind: 'number',
+      min: 0.001,
+      max: 1,
+      step: 0.01,
+      integer: false,
+    },
+    {
+      key: 'numEstimators',
+      label: 'Boosting rounds',
+      description: 'Maximum number of trees added in sequence',
+      kind: 'slider',
+      min: 10,
+      max: 500,
+      step: 10,
+      integer: true,
+    },
+    {
+      key: 'maxDepth',
+      label: 'Max depth',
+      description: 'Depth of each shallow tree',
+      kind: 'slider',
+      min: 1,
+      max: 6,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'subsample',
+      label: 'Subsample',
+      description: 'Share of training rows drawn for each round',
+      kind: 'slider',
+      min: 0.1,
+      max: 1,
+      step: 0.05,
+      integer: false,
+    },
+    {
+      key: 'validationFraction',
+      label: 'Validation fraction',
+      description: 'Rows held out for early stopping; 0 turns it off',
+      kind: 'slider',
+      min: 0,
+      max: 0.5,
+      step: 0.05,
+      integer: false,
+    },
+    {
+      key: 'patience',
+      label: 'Early-stopping patience',
+      description: 'Rounds without validation improvement before stopping',
+      kind: 'slider',
+      min: 1,
+      max: 50,
+      step: 1,
+      integer: true,
+      isActive: values => (values.validationFraction as number) > 0,
+    },
+  ],
+  knn: [
+    {
+      key: 'k',
+      label: 'Neighbours (k)',
+      description: 'Training rows consulted for each prediction',
+      kind: 'slider',
+      min: 1,
+      max: 50,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'metric',
+      label: 'Distance',
+      description: 'How closeness between rows is measured',
+      kind: 'select',
+      options: [
+        { value: 'euclidean', label: 'Euclidean' },
+        { value: 'manhattan', label: 'Manhattan' },
+        { value: 'cosine', label: 'Cosine' },
+      ],
+    },
+    {
+      key: 'weighting',
+      label: 'Weighting',
+      description: 'Whether closer neighbours count for more',
+      kind: 'select',
+      options: [
+        { value: 'uniform', label: 'Uniform' },
+        { value: 'distance', label: 'Inverse distance' },
+      ],
+    },
+  ],
+  gaussian_nb: [
+    {
+      key: 'varSmoothing',
+      label: 'Variance smoothing',
+      description: 'Share of the largest variance added to all variances for stability',
+      kind: 'number',
+      min: 0,
+      max: 1,
+      step: 1e-9,
+      integer: false,
+    },
+  ],
+  categorical_nb: [
+    {
+      key: 'alpha',
+      label: 'Smoothing (α)',
+      description: 'Pseudo-count added to every category so unseen ones keep some probability',
+      kind: 'number',
+      min: 0.001,
+      max: 100,
+      step: 0.1,
+      integer: false,
+    },
+    {
+      key: 'bins',
+      label: 'Bins',
+      description: 'Quantile bins for features with more distinct values than this',
+      kind: 'slider',
+      min: 2,
+      max: 20,
+      step: 1,
+      integer: true,
+    },
+  ],
+  linear_svm: [
+    {
+      key: 'learningRate',
+      label: 'Learning rate',
+      description: 'Initial SGD step size, decayed as training goes on',
+      kind: 'number',
+      min: 0.0001,
+      max: 1,
+      step: 0.001,
+      integer: false,
+    },
+    {
+      key: 'epochs',
+      label: 'Epochs',
+      description: 'Shuffled passes over the training data',
+      kind: 'slider',
+      min: 5,
+      max: 500,
+      step: 5,
+      integer: true,
+    },
+    {
+      key: 'regularizationStrength',
+      label: 'Regularization strength (λ)',
+      description: 'L2 penalty; larger values widen the margin at the cost of training errors',
+      kind: 'number',
+      min: 0,
+      max: 10,
+      step: 0.001,
+      integer: false,
+    },
+  ],
+  mlp: [
+    {
+      key: 'hiddenLayers',
+      label: 'Hidden layers',
+      description: 'Dense layers between the inputs and the output',
+      kind: 'slider',
+      min: 1,
+      max: 4,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'hiddenUnits',
+      label: 'Units per layer',
+      description: 'Neurons in each hidden layer',
+      kind: 'slider',
+      min: 2,
+      max: 128,
+      step: 2,
+      integer: true,
+    },
+    {
+      key: 'activation',
+      label: 'Activation',
+      description: 'Non-linearity applied after each hidden layer',
+      kind: 'select',
+      options: [
+        { value: 'relu', label: 'ReLU' },
+        { value: 'tanh', label: 'tanh' },
+        { value: 'sigmoid', label: 'Sigmoid' },
+      ],
+    },
+    {
+      key: 'epochs',
+      label: 'Epochs',
+      description: 'Shuffled passes over the training data',
+      kind: 'slider',
+      min: 5,
+      max: 1000,
+      step: 5,
+      integer: true,
+    },
+    {
+      key: 'batchSize',
+      label: 'Mini-batch size',
+      description: 'Rows averaged into each gradient step',
+      kind: 'slider',
+      min: 1,
+      max: 256,
+      step: 1,
+      integer: true,
+    },
+    {
+      key: 'learningRate',
+      label: 'Learning rate',
+      description: 'Adam step size',
+      kind: 'number',
+      min: 0.00001,
+      max: 1,
+      step: 0.001,
+      integer: false,
+    },
+  ],
+  linear: [],
+  ridge: [
+    {
+      key: 'alpha',
+      label: 'Alpha (λ)',
+      description: 'L2 penalty on the coefficients',
+      kind: 'number',
+      min: 0,
+      max: 1000,
+      step: 0.1,
+      integer: false,
+    },
+  ],
+};
+
+// Returns one message per invalid hyperparameter, keyed by control key
+export function validateHyperparameters(
+  modelType: ModelType,
+  hyperparameters: ModelHyperparameters
+): Record<string, string> {
+  const values = hyperparameters[modelType] as HyperparameterValues;
+  const errors: Record<string, string> = {};
+
+  HYPERPARAMETER_CONTROLS[modelType].forEach(control => {
+    const value = values[control.key];
+    if (control.kind === 'select') {
+      if (!control.options.some(option => option.value === value)) {
+        errors[control.key] = `${control.label} must be one of ${control.options.map(o => o.label).join(', ')}`;
+      }
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[control.key] = `${control.label} must be a number`;
+    } else if (value < control.min || value > control.max) {
+      errors[control.key] = `${control.label} must be between ${control.min} and ${control.max}`;
+    } else if (control.integer && !Number.isInteger(value)) {
+      errors[control.key] = `${control.label} must be a whole number`;
+    }
+  });
+
+  return errors;
+}
@@ -1,4 +1,37 @@
 // ML Utility functions for preprocessing and model training
+import type {
+  CategoricalEncoding,
+  CategoricalEncoderParams,
+  AveragedScores,
+  ClassificationReport,
+  ClassScores,
+  BoostingHistory,
+  CategoricalNBHyperparameters,
+  CategoricalNBParams,
+  DecisionTreeHyperparameters,
+  DenseLayer,
+  DistanceMetric,
+  GaussianNBHyperparameters,
+  GaussianNBParams,
+  GradientBoostingHyperparameters,
+  GradientBoostingParams,
+  ImputationStrategy,
+  ImputerParams,
+  KnnHyperparameters,
+  KnnParams,
+  LinearParams,
+  LinearSvmHyperparameters,
+  LogisticHyperparameters,
+  LogisticParams,
+  MaxFeatures,
+  MlpActivation,
+  MlpHyperparameters,
+  MlpParams,
+  PreprocessingMethod,
+  RandomForestHyperparameters,
+  ScalerParams,
+  TreeNode,
+} from '@/types/pipeline';
 
 export interface DatasetInfo {
   data: number[][];
@@ -15,72 +48,368 @@ export interface ProcessedData {
   y_test: number[];
 }
 
+// Scalers are fitted on training data only and then applied to any split
+// with transformScaler, so test statistics never leak into training.
+
 // Standard Scaler: (x - mean) / std
-export function standardScaler(data: number[][]): number[][] {
-  if (data.length === 0) return data;
-  
-  const numFeatures = data[0].length;
+export function fitStandardScaler(data: number[][]): ScalerParams {
+  const numFeatures = data[0]?.length || 0;
   const means: number[] = [];
   const stds: number[] = [];
   
-  // Calculate means
   for (let j = 0; j < numFeatures; j++) {
     const column = data.map(row => row[j]);
-    const mean = column.reduce((a, b) => a + b, 0) / column.length;
-    means.push(mean);
+    const colMean = mean(column);
+    means.push(colMean);
     
     // Calculate std
-    const variance = column.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / column.length;
-    stds.push(Math.sqrt(variance) || 1);
+    const colVariance = column.reduce((sum, val) => sum + Math.pow(val - colMean, 2), 0) / column.length;
+    stds.push(Math.sqrt(colVariance) || 1);
   }
   
-  // Scale data
-  return data.map(row => 
-    row.map((val, j) => (val - means[j]) / stds[j])
-  );
+  return { method: 'standard', means, stds };
 }
 
 // Min-Max Scaler: (x - min) / (max - min)
-export function minMaxScaler(data: number[][]): number[][] {
-  if (data.length === 0) return data;
-  
-  const numFeatures = data[0].length;
+export function fitMinMaxScaler(data: number[][]): ScalerParams {
+  const numFeatures = data[0]?.length || 0;
   const mins: number[] = [];
   const maxs: number[] = [];
   
   for (let j = 0; j < numFeatures; j++) {
     const column = data.map(row => row[j]);
-    mins.push(Math.min(...column));
-    maxs.push(Math.max(...column));
+    mins.push(column.reduce((a, b) => Math.min(a, b), Infinity));
+    maxs.push(column.reduce((a, b) => Math.max(a, b), -Infinity));
   }
   
+  return { method: 'minmax', mins, maxs };
+}
+
+export function fitScaler(data: number[][], method: PreprocessingMethod): ScalerParams | null {
+  if (method === 'standard') return fitStandardScaler(data);
+  if (method === 'minmax') return fitMinMaxScaler(data);
+  return null;
+}
+
+export function transformScaler(data: number[][], params: ScalerParams | null): number[][] {
+  if (!params) return data;
+  if (params.method === 'standard') {
+    return data.map(row =>
+      row.map((val, j) => (val - params.means[j]) / params.stds[j])
+    );
+  }
   return data.map(row =>
     row.map((val, j) => {
-      const range = maxs[j] - mins[j];
-      return range === 0 ? 0 : (val - mins[j]) / range;
+      const range = params.maxs[j] - params.mins[j];
+      return range === 0 ? 0 : (val - params.mins[j]) / range;
     })
   );
 }
 
-// Train-Test Split
-export function trainTestSplit(
+// Missing Values. Blank cells and common placeholders count as missing;
+// numeric matrices represent missing entries as NaN.
+const MISSING_TOKENS = new Set(['', 'na', 'n/a', 'nan', 'null', '?']);
+
+export const MISSING_CATEGORY = '(missing)';
+
+export function isMissing(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'number') return isNaN(value);
+  return MISSING_TOKENS.has(String(value).trim().toLowerCase());
+}
+
+// Parse a cell as a number, NaN when missing or unparsable
+export function parseNumeric(value: unknown): number {
+  if (isMissing(value)) return NaN;
+  return Number(value);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function mostFrequent<T>(values: T[], fallback: T): T {
+  const counts = new Map<T, number>();
+  let best = fallback;
+  let bestCount = 0;
+  values.forEach(v => {
+    const count = (counts.get(v) || 0) + 1;
+    counts.set(v, count);
+    if (count > bestCount) {
+      best = v;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Fit a numeric imputer. "drop" and "indicator" fall back to the column mean
+// for any value still missing at transform time.
+export function fitImputer(
   X: number[][],
+  strategy: ImputationStrategy,
+  constantValue: number = 0
+): ImputerParams {
+  const numFeatures = X[0]?.length || 0;
+  const fillValues: number[] = [];
+  const indicatorColumns: number[] = [];
+
+  for (let j = 0; j < numFeatures; j++) {
+    const present = X.map(row => row[j]).filter(v => !isNaN(v));
+    if (strategy === 'indicator' && present.length < X.length) {
+      indicatorColumns.push(j);
+    }
+
+    if (strategy === 'constant') {
+      fillValues.push(constantValue);
+    } else if (strategy === 'median') {
+      fillValues.push(median(present));
+    } else if (strategy === 'mode') {
+      fillValues.push(mostFrequent(present, 0));
+    } else {
+      fillValues.push(mean(present));
+    }
+  }
+
+  return { strategy, fillValues, indicatorColumns };
+}
+
+// Fill missing values and append one 0/1 column per indicator column
+export function transformImputer(X: number[][], params: ImputerParams): number[][] {
+  return X.map(row => [
+    ...row.map((val, j) => (isNaN(val) ? params.fillValues[j] : val)),
+    ...params.indicatorColumns.map(j => (isNaN(row[j]) ? 1 : 0)),
+  ]);
+}
+
+// Category used in place of missing categorical values
+export function fitCategoricalImputer(
+  values: string[],
+  strategy: ImputationStrategy,
+  constantValue: string = MISSING_CATEGORY
+): string {
+  if (strategy === 'constant') return constantValue;
+  if (strategy === 'indicator' || strategy === 'drop') return MISSING_CATEGORY;
+  return mostFrequent(values.filter(v => !isMissing(v)), MISSING_CATEGORY);
+}
+
+// Label Encoder: maps the distinct target values to 0..k-1. Numeric labels
+// are ordered numerically, anything else alphabetically.
+export function encodeLabels(values: unknown[]): { labels: number[]; classes: string[] } {
+  const keys = values.map(categoryKey);
+  const distinct = [...new Set(keys)];
+  const allNumeric = distinct.every(k => k !== '' && !isNaN(Number(k)));
+  const classes = allNumeric
+    ? distinct.sort((a, b) => Number(a) - Number(b))
+    : distinct.sort((a, b) => a.localeCompare(b));
+  const index = new Map(classes.map((c, i) => [c, i]));
+
+  return { labels: keys.map(k => index.get(k)!), classes };
+}
+
+// Categorical Encoders. Every method is a lookup table from category to a
+// numeric vector, so fitting and transforming share one representation.
+export function categoryKey(value: unknown): string {
+  return String(value ?? '').trim();
+}
+
+// One-Hot Encoder: one 0/1 column per category
+export function fitOneHotEncoder(values: string[]): CategoricalEncoderParams {
+  const categories = [...new Set(values)].sort((a, b) => a.localeCompare(b));
+  return {
+    method: 'onehot',
+    categories,
+    table: categories.map((_, i) => categories.map((__, j) => (i === j ? 1 : 0))),
+    unknown: categories.map(() => 0),
+    outputNames: categories,
+  };
+}
+
+// Ordinal Encoder: categories numbered 0..k-1 in alphabetical order
+export function fitOrdinalEncoder(values: string[]): CategoricalEncoderParams {
+  const categories = [...new Set(values)].sort((a, b) => a.localeCompare(b));
+  return {
+    method: 'ordinal',
+    categories,
+    table: categories.map((_, i) => [i]),
+    unknown: [-1],
+    outputNames: [''],
+  };
+}
+
+// Frequency Encoder: share of rows holding each category
+export function fitFrequencyEncoder(values: string[]): CategoricalEncoderParams {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  const categories = [...counts.keys()].sort((a, b) => a.localeCompare(b));
+  return {
+    method: 'frequency',
+    categories,
+    table: categories.map(c => [counts.get(c)! / values.length]),
+    unknown: [0],
+    outputNames: [''],
+  };
+}
+
+// Target Encoder: smoothed mean of the target per category. Regression
+// targets (numClasses undefined) and binary labels give one column holding
+// the mean / positive rate; multiclass labels give one rate column per class.
+export function fitTargetEncoder(
+  values: string[],
+  y: number[],
+  numClasses?: number,
+  smoothing: number = 10
+): CategoricalEncoderParams {
+  const targetVector = (label: number): number[] => {
+    if (numClasses === undefined) return [label];
+    if (numClasses <= 2) return [label === 1 ? 1 : 0];
+    return Array.from({ length: numClasses }, (_, k) => (label === k ? 1 : 0));
+  };
+
+  const width = targetVector(0).length;
+  const prior = new Array(width).fill(0);
+  const sums = new Map<string, number[]>();
+  const counts = new Map<string, number>();
+
+  values.forEach((v, i) => {
+    const t = targetVector(y[i]);
+    if (!sums.has(v)) sums.set(v, new Array(width).fill(0));
+    const sum = sums.get(v)!;
+    t.forEach((val, k) => {
+      sum[k] += val;
+      prior[k] += val / values.length;
+    });
+    counts.set(v, (counts.get(v) || 0) + 1);
+  });
+
+  const categories = [...counts.keys()].sort((a, b) => a.localeCompare(b));
+  return {
+    method: 'target',
+    categories,
+    table: categories.map(c => {
+      const n = counts.get(c)!;
+      return sums.get(c)!.map((sum, k) => (sum + smoothing * prior[k]) / (n + smoothing));
+    }),
+    unknown: prior,
+    outputNames: width === 1 ? [''] : Array.from({ length: width }, (_, k) => `p${k}`),
+  };
+}
+
+export function fitCategoricalEncoder(
+  values: string[],
+  method: CategoricalEncoding,
   y: number[],
+  numClasses?: number
+): CategoricalEncoderParams {
+  switch (method) {
+    case 'ordinal':
+      return fitOrdinalEncoder(values);
+    case 'frequency':
+      return fitFrequencyEncoder(values);
+    case 'target':
+      return fitTargetEncoder(values, y, numClasses);
+    default:
+      return fitOneHotEncoder(values);
+  }
+}
+
+// Encode values with a fitted encoder, one row of outputs per value
+export function transformCategorical(values: string[], params: CategoricalEncoderParams): number[][] {
+  const index = new Map(params.categories.map((c, i) => [c, i]));
+  return values.map(v => {
+    const i = index.get(v);
+    return i === undefined ? params.unknown : params.table[i];
+  });
+}
+
+// Source of uniform random numbers in [0, 1), like Math.random
+export type Random = () => number;
+
+// Seeded PRNG (mulberry32): the same seed always yields the same sequence,
+// which makes splits and randomized models reproducible
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates shuffle
+export function shuffleInPlace<T>(items: T[], random: Random = Math.random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// Group sample indices by class label, classes in ascending order
+function indicesByClass(labels: number[]): number[][] {
+  const byClass = new Map<number, number[]>();
+  labels.forEach((label, i) => {
+    if (!byClass.has(label)) byClass.set(label, []);
+    byClass.get(label)!.push(i);
+  });
+  return [...byClass.keys()].sort((a, b) => a - b).map(label => byClass.get(label)!);
+}
+
+export interface SplitOptions {
+  shuffle?: boolean;
+  random?: Random;
+  // Class labels to stratify by: each class keeps its share in both parts
+  stratifyLabels?: number[];
+}
+
+// Train-Test Split
+export function trainTestSplitIndices(
+  n: number,
   testSize: number = 0.2,
-  shuffle: boolean = true
-): ProcessedData {
-  const indices = Array.from({ length: X.length }, (_, i) => i);
+  { shuffle = true, random = Math.random, stratifyLabels }: SplitOptions = {}
+): { trainIndices: number[]; testIndices: number[] } {
+  if (stratifyLabels) {
+    const trainIndices: number[] = [];
+    const testIndices: number[] = [];
+    indicesByClass(stratifyLabels).forEach(members => {
+      shuffleInPlace(members, random);
+      // Classes with two or more samples keep at least one on each side
+      let testCount = Math.round(members.length * testSize);
+      if (members.length >= 2) testCount = Math.min(Math.max(testCount, 1), members.length - 1);
+      testIndices.push(...members.slice(0, testCount));
+      trainIndices.push(...members.slice(testCount));
+    });
+    return {
+      trainIndices: shuffleInPlace(trainIndices, random),
+      testIndices: shuffleInPlace(testIndices, random),
+    };
+  }
+
+  const indices = Array.from({ length: n }, (_, i) => i);
   
   if (shuffle) {
-    for (let i = indices.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [indices[i], indices[j]] = [indices[j], indices[i]];
-    }
+    shuffleInPlace(indices, random);
   }
   
-  const splitIndex = Math.floor(X.length * (1 - testSize));
-  const trainIndices = indices.slice(0, splitIndex);
-  const testIndices = indices.slice(splitIndex);
+  const splitIndex = Math.floor(n * (1 - testSize));
+  return {
+    trainIndices: indices.slice(0, splitIndex),
+    testIndices: indices.slice(splitIndex),
+  };
+}
+
+export function trainTestSplit(
+  X: number[][],
+  y: number[],
+  testSize: number = 0.2,
+  options: SplitOptions = {}
+): ProcessedData {
+  const { trainIndices, testIndices } = trainTestSplitIndices(X.length, testSize, options);
   
   return {
     X_train: trainIndices.map(i => X[i]),
@@ -90,20 +419,72 @@ export function trainTestSplit(
   };
 }
 
+// K-fold cross-validation indices. Every sample is held out exactly once.
+// With labels the folds are stratified: each class is shuffled and dealt
+// round-robin so every fold keeps the overall class proportions.
+export function kFoldIndices(
+  n: number,
+  k: number,
+  stratifyLabels?: number[],
+  random: Random = Math.random
+): { trainIndices: number[]; testIndices: number[] }[] {
+  const foldOf = new Array<number>(n);
+
+  if (stratifyLabels) {
+    // Continue dealing where the previous class stopped so fold sizes stay even
+    let next = 0;
+    indicesByClass(stratifyLabels).forEach(members => {
+      shuffleInPlace(members, random).forEach(i => {
+        foldOf[i] = next;
+        next = (next + 1) % k;
+      });
+    });
+  } else {
+    shuffleInPlace(Array.from({ length: n }, (_, i) => i), random).forEach((i, position) => {
+      foldOf[i] = position % k;
+    });
+  }
+
+  return Array.from({ length: k }, (_, fold) => {
+    const trainIndices: number[] = [];
+    const testIndices: number[] = [];
+    for (let i = 0; i < n; i++) {
+      (foldOf[i] === fold ? testIndices : trainIndices).push(i);
+    }
+    return { trainIndices, testIndices };
+  });
+}
+
+// Mean and sample standard deviation, e.g. of per-fold scores
+export function meanAndStd(values: number[]): { mean: number; std: number } {
+  const m = mean(values);
+  if (values.length < 2) return { mean: m, std: 0 };
+  const squares = values.reduce((sum, v) => sum + (v - m) ** 2, 0);
+  return { mean: m, std: Math.sqrt(squares / (values.length - 1)) };
+}
+
 // Sigmoid function
 function sigmoid(x: number): number {
   return 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
 }
 
-// Logistic Regression
+// Logistic Regression, batch gradient descent on the log-loss. L2 adds
+// λ/2·‖w‖² to the loss; L1 adds λ·‖w‖₁ and is applied as a soft-threshold
+// (proximal) step so weights can reach exactly zero. The bias is never
+// penalized.
 export function logisticRegression(
   X_train: number[][],
   y_train: number[],
-  learningRate: number = 0.1,
-  iterations: number = 1000
+  {
+    learningRate = 0.1,
+    iterations = 1000,
+    regularization = 'none',
+    regularizationStrength = 0,
+  }: Partial<LogisticHyperparameters> = {},
+  onIteration?: (iteration: number, loss: number) => void
 ): { weights: number[]; bias: number } {
   const numFeatures = X_train[0]?.length || 0;
-  let weights = new Array(numFeatures).fill(0);
+  const weights = new Array(numFeatures).fill(0);
   let bias = 0;
   
   for (let iter = 0; iter < iterations; iter++) {
@@ -114,6 +495,7 @@ export function logisticRegression(
     // Calculate gradients
     const dw = new Array(numFeatures).fill(0);
     let db = 0;
+    let loss = 0;
     
     for (let i = 0; i < X_train.length; i++) {
       const error = predictions[i] - y_train[i];
@@ -121,11 +503,25 @@ export function logisticRegression(
         dw[j] += error * X_train[i][j];
       }
       db += error;
+      loss -= y_train[i] * Math.log(predictions[i] + 1e-15) + (1 - y_train[i]) * Math.log(1 - predictions[i] + 1e-15);
+    }
+    loss /= X_train.length;
+    if (regularization === 'l2') {
+      loss += (regularizationStrength / 2) * weights.reduce((sum, w) => sum + w * w, 0);
+    } else if (regularization === 'l1') {
+      loss += regularizationStrength * weights.reduce((sum, w) => sum + Math.abs(w), 0);
     }
+    onIteration?.(iter + 1, loss);
     
     // Update weights
     for (let j = 0; j < numFeatures; j++) {
-      weights[j] -= learningRate * dw[j] / X_train.length;
+      let gradient = dw[j] / X_train.length;
+      if (regularization === 'l2') gradient += regularizationStrength * weights[j];
+      weights[j] -= learningRate * gradient;
+      if (regularization === 'l1') {
+        const shrink = learningRate * regularizationStrength;
+        weights[j] = Math.sign(weights[j]) * Math.max(0, Math.abs(weights[j]) - shrink);
+      }
     }
     bias -= learningRate * db / X_train.length;
   }
@@ -144,13 +540,219 @@ export function predictLogistic(
   });
 }
 
-// Decision Tree Node
-interface TreeNode {
-  feature?: number;
-  threshold?: number;
-  left?: TreeNode;
-  right?: TreeNode;
-  prediction?: number;
+// Multiclass Logistic Regression (one-vs-rest). Binary problems train a
+// single classifier for class 1; otherwise one classifier per class.
+export function logisticRegressionOvR(
+  X_train: number[][],
+  y_train: number[],
+  numClasses: number,
+  hyperparameters: Partial<LogisticHyperparameters> = {},
+  onProgress?: (fraction: number, iteration: number, loss: number) => void
+): LogisticParams {
+  const iterations = hyperparameters.iterations ?? 1000;
+  const positives = numClasses <= 2 ? [1] : Array.from({ length: numClasses }, (_, k) => k);
+  const weights: number[][] = [];
+  const biases: number[] = [];
+
+  positives.forEach((k, index) => {
+    const yBinary = y_train.map(val => (val === k ? 1 : 0));
+    const model = logisticRegression(X_train, yBinary, hyperparameters, (iteration, loss) =>
+      onProgress?.((index * iterations + iteration) / (positives.length * iterations), iteration, loss)
+    );
+    weights.push(model.weights);
+    biases.push(model.bias);
+  });
+
+  return { weights, biases };
+}
+
+// Class probabilities, one row per sample and one column per class
+export function predictProbaLogistic(X: number[][], params: LogisticParams): number[][] {
+  return X.map(x => {
+    const scores = params.weights.map((w, k) =>
+      sigmoid(x.reduce((sum, xi, i) => sum + xi * w[i], 0) + params.biases[k])
+    );
+    if (scores.length === 1) {
+      return [1 - scores[0], scores[0]];
+    }
+    const total = scores.reduce((a, b) => a + b, 0);
+    return scores.map(s => (total > 0 ? s / total : 1 / scores.length));
+  });
+}
+
+export function predictLogisticOvR(X: number[][], params: LogisticParams): number[] {
+  return predictProbaLogistic(X, params).map(argmax);
+}
+
+function argmax(values: number[]): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+// Linear SVM: hinge loss max(0, 1 − y·(w·x + b)) plus λ/2·‖w‖², minimized by
+// SGD over shuffled rows with step size η₀ / (1 + η₀·λ·t). Like logistic
+// regression it is one-vs-rest: binary problems train a single classifier
+// for class 1.
+function linearSvmBinary(
+  X_train: number[][],
+  y_signed: number[],
+  { learningRate = 0.01, epochs = 50, regularizationStrength = 0.01 }: Partial<LinearSvmHyperparameters>,
+  random: Random,
+  onEpoch?: (epoch: number, loss: number) => void
+): { weights: number[]; bias: number } {
+  const numFeatures = X_train[0]?.length || 0;
+  const weights = new Array(numFeatures).fill(0);
+  let bias = 0;
+  let step = 0;
+  const order = X_train.map((_, i) => i);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    shuffleInPlace(order, random);
+    for (const i of order) {
+      const eta = learningRate / (1 + learningRate * regularizationStrength * step++);
+      const x = X_train[i];
+      const margin = y_signed[i] * (x.reduce((sum, xi, j) => sum + xi * weights[j], 0) + bias);
+      const shrink = 1 - eta * regularizationStrength;
+      for (let j = 0; j < numFeatures; j++) weights[j] *= shrink;
+      if (margin < 1) {
+        for (let j = 0; j < numFeatures; j++) weights[j] += eta * y_signed[i] * x[j];
+        bias += eta * y_signed[i];
+      }
+    }
+
+    if (onEpoch) {
+      const hinge = X_train.reduce((sum, x, i) =>
+        sum + Math.max(0, 1 - y_signed[i] * (x.reduce((s, xi, j) => s + xi * weights[j], 0) + bias)), 0
+      ) / X_train.length;
+      onEpoch(epoch + 1, hinge + (regularizationStrength / 2) * weights.reduce((sum, w) => sum + w * w, 0));
+    }
+  }
+
+  return { weights, bias };
+}
+
+export function linearSvm(
+  X_train: number[][],
+  y_train: number[],
+  numClasses: number,
+  hyperparameters: Partial<LinearSvmHyperparameters> = {},
+  random: Random = Math.random,
+  onProgress?: (fraction: number, epoch: number, loss: number) => void
+): LogisticParams {
+  const epochs = hyperparameters.epochs ?? 50;
+  const positives = numClasses <= 2 ? [1] : Array.from({ length: numClasses }, (_, k) => k);
+  const weights: number[][] = [];
+  const biases: number[] = [];
+
+  positives.forEach((k, index) => {
+    const ySigned = y_train.map(val => (val === k ? 1 : -1));
+    const model = linearSvmBinary(X_train, ySigned, hyperparameters, random, (epoch, loss) =>
+      onProgress?.((index * epochs + epoch) / (positives.length * epochs), epoch, loss)
+    );
+    weights.push(model.weights);
+    biases.push(model.bias);
+  });
+
+  return { weights, biases };
+}
+
+// Signed distance-like margins, one column per trained classifier
+export function decisionFunctionSvm(X: number[][], params: LogisticParams): number[][] {
+  return X.map(x => params.weights.map((w, k) => x.reduce((sum, xi, i) => sum + xi * w[i], 0) + params.biases[k]));
+}
+
+// Class 1 on a non-negative margin for binary problems, otherwise the class
+// with the largest margin
+export function predictLinearSvm(X: number[][], params: LogisticParams): number[] {
+  return decisionFunctionSvm(X, params).map(scores => (scores.length === 1 ? (scores[0] >= 0 ? 1 : 0) : argmax(scores)));
+}
+
+// Ridge Regression: closed-form solution of (XᵀX + αI)w = Xᵀy on centered
+// data, so the intercept is not penalized. alpha = 0 is ordinary least squares.
+export function ridgeRegression(
+  X_train: number[][],
+  y_train: number[],
+  alpha: number = 1
+): LinearParams {
+  const n = X_train.length;
+  const numFeatures = X_train[0]?.length || 0;
+  if (n === 0) return { weights: new Array(numFeatures).fill(0), bias: 0 };
+
+  const xMeans = Array.from({ length: numFeatures }, (_, j) =>
+    X_train.reduce((sum, row) => sum + row[j], 0) / n
+  );
+  const yMean = mean(y_train);
+
+  const A = Array.from({ length: numFeatures }, () => new Array(numFeatures).fill(0));
+  const b = new Array(numFeatures).fill(0);
+  for (let i = 0; i < n; i++) {
+    const xc = X_train[i].map((v, j) => v - xMeans[j]);
+    const yc = y_train[i] - yMean;
+    for (let j = 0; j < numFeatures; j++) {
+      b[j] += xc[j] * yc;
+      for (let k = j; k < numFeatures; k++) {
+        A[j][k] += xc[j] * xc[k];
+      }
+    }
+  }
+  for (let j = 0; j < numFeatures; j++) {
+    for (let k = 0; k < j; k++) A[j][k] = A[k][j];
+    A[j][j] += alpha;
+  }
+
+  const weights = solveLinearSystem(A, b);
+  const bias = yMean - weights.reduce((sum, w, j) => sum + w * xMeans[j], 0);
+  return { weights, bias };
+}
+
+// Linear Regression (ordinary least squares)
+export function linearRegression(
+  X_train: number[][],
+  y_train: number[]
+): LinearParams {
+  return ridgeRegression(X_train, y_train, 0);
+}
+
+export function predictLinear(X: number[][], weights: number[], bias: number): number[] {
+  return X.map(x => x.reduce((sum, xi, i) => sum + xi * weights[i], 0) + bias);
+}
+
+// Gaussian elimination with partial pivoting. Columns without a usable pivot
+// (collinear or constant features) get a zero coefficient.
+function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  const pivotCols: number[] = [];
+  let row = 0;
+
+  for (let col = 0; col < n && row < n; col++) {
+    let pivot = row;
+    for (let r = row + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-10) continue;
+    [M[row], M[pivot]] = [M[pivot], M[row]];
+
+    for (let r = 0; r < n; r++) {
+      if (r === row) continue;
+      const factor = M[r][col] / M[row][col];
+      if (factor === 0) continue;
+      for (let c = col; c <= n; c++) {
+        M[r][c] -= factor * M[row][c];
+      }
+    }
+    pivotCols.push(col);
+    row++;
+  }
+
+  const x = new Array(n).fill(0);
+  pivotCols.forEach((col, r) => {
+    x[col] = M[r][n] / M[r][col];
+  });
+  return x;
 }
 
 // Gini impurity
@@ -166,76 +768,191 @@ function giniImpurity(y: number[]): number {
   return impurity;
 }
 
-// Decision Tree Classifier
-export function decisionTreeClassifier(
+// Running impurity of a growing/shrinking set of targets, so candidate
+// thresholds can be scored in one sorted sweep
+interface ImpurityAccumulator {
+  add: (value: number) => void;
+  remove: (value: number) => void;
+  impurity: () => number;
+}
+
+// Split criterion shared by the classification and regression trees
+interface TreeCriterion {
+  impurity: (y: number[]) => number;
+  leafValue: (y: number[]) => number;
+  // What each node records about the samples reaching it
+  summary: (y: number[]) => number[];
+  accumulator: () => ImpurityAccumulator;
+}
+
+// Gini impurity from class counts: 1 − Σ count² / n²
+function giniAccumulator(): ImpurityAccumulator {
+  const counts = new Map<number, number>();
+  let n = 0;
+  let sumOfSquares = 0;
+  return {
+    add: label => {
+      const count = counts.get(label) ?? 0;
+      counts.set(label, count + 1);
+      sumOfSquares += 2 * count + 1;
+      n++;
+    },
+    remove: label => {
+      const count = counts.get(label)!;
+      counts.set(label, count - 1);
+      sumOfSquares -= 2 * count - 1;
+      n--;
+    },
+    impurity: () => (n > 0 ? 1 - sumOfSquares / (n * n) : 0),
+  };
+}
+
+// Variance from running sums: E[y²] − E[y]²
+function varianceAccumulator(): ImpurityAccumulator {
+  let n = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  return {
+    add: value => {
+      n++;
+      sum += value;
+      sumOfSquares += value * value;
+    },
+    remove: value => {
+      n--;
+      sum -= value;
+      sumOfSquares -= value * value;
+    },
+    impurity: () => (n > 0 ? Math.max(0, sumOfSquares / n - (sum / n) ** 2) : 0),
+  };
+}
+
+// Most frequent label
+function majorityLabel(y: number[]): number {
+  const counts: Record<number, number> = {};
+  y.forEach(val => counts[val] = (counts[val] || 0) + 1);
+  const prediction = Object.entries(counts).reduce((a, b) =>
+    a[1] > b[1] ? a : b
+  )[0];
+  return parseInt(prediction);
+}
+
+// Number of samples with each class label
+function labelCounts(y: number[], numClasses: number): number[] {
+  const counts = new Array(numClasses).fill(0);
+  y.forEach(label => counts[label]++);
+  return counts;
+}
+
+// Variance, the regression analogue of Gini impurity
+function variance(y: number[]): number {
+  if (y.length === 0) return 0;
+  const mean = y.reduce((a, b) => a + b, 0) / y.length;
+  return y.reduce((sum, val) => sum + (val - mean) ** 2, 0) / y.length;
+}
+
+function mean(y: number[]): number {
+  return y.length === 0 ? 0 : y.reduce((a, b) => a + b, 0) / y.length;
+}
+
+// Reports the number of nodes built and the share of training samples that
+// have reached a leaf, which grows monotonically to 1
+export type TreeProgressCallback = (nodesBuilt: number, fractionResolved: number) => void;
+
+// Number of features sampled at each split for a maxFeatures setting
+export function featureSubsetSize(maxFeatures: MaxFeatures, numFeatures: number): number {
+  if (maxFeatures === 'sqrt') return Math.max(1, Math.round(Math.sqrt(numFeatures)));
+  if (maxFeatures === 'log2') return Math.max(1, Math.floor(Math.log2(numFeatures)));
+  return numFeatures;
+}
+
+// Random sample of k distinct feature indices (partial Fisher-Yates)
+function sampleFeatures(numFeatures: number, k: number, random: Random): number[] {
+  const features = Array.from({ length: numFeatures }, (_, i) => i);
+  if (k >= numFeatures) return features;
+  for (let i = 0; i < k; i++) {
+    const j = i + Math.floor(random() * (numFeatures - i));
+    [features[i], features[j]] = [features[j], features[i]];
+  }
+  return features.slice(0, k);
+}
+
+// When importances is given, every split adds its impurity decrease weighted
+// by the samples reaching it to importances[feature]
+export type TreeOptions = Partial<DecisionTreeHyperparameters> & { random?: Random; importances?: number[] };
+
+function buildDecisionTree(
   X_train: number[][],
   y_train: number[],
-  maxDepth: number = 5,
-  minSamplesSplit: number = 2
+  { maxDepth = 5, minSamplesSplit = 2, minSamplesLeaf = 1, maxFeatures = 'all', random = Math.random, importances }: TreeOptions,
+  criterion: TreeCriterion,
+  onProgress?: TreeProgressCallback
 ): TreeNode {
+  const subsetSize = featureSubsetSize(maxFeatures, X_train[0]?.length || 0);
+  let nodesBuilt = 0;
+  let samplesResolved = 0;
+
+  function leaf(y: number[]): TreeNode {
+    nodesBuilt++;
+    samplesResolved += y.length;
+    onProgress?.(nodesBuilt, samplesResolved / y_train.length);
+    return { ...describe(y), prediction: criterion.leafValue(y) };
+  }
+
+  function describe(y: number[]): TreeNode {
+    return { samples: y.length, impurity: criterion.impurity(y), value: criterion.summary(y) };
+  }
+
   function buildTree(X: number[][], y: number[], depth: number): TreeNode {
     // Base cases
-    const uniqueLabels = [...new Set(y)];
-    if (uniqueLabels.length === 1) {
-      return { prediction: uniqueLabels[0] };
-    }
-    if (depth >= maxDepth || X.length < minSamplesSplit) {
-      const counts: Record<number, number> = {};
-      y.forEach(val => counts[val] = (counts[val] || 0) + 1);
-      const prediction = Object.entries(counts).reduce((a, b) => 
-        a[1] > b[1] ? a : b
-      )[0];
-      return { prediction: parseInt(prediction) };
+    const currentImpurity = criterion.impurity(y);
+    if (currentImpurity === 0 || depth >= maxDepth || X.length < minSamplesSplit) {
+      return leaf(y);
     }
     
-    // Find best split
+    // Find best split: sort by each candidate feature and move samples
+    // from right to left, scoring the midpoint between distinct values.
+    // Gains below a relative epsilon are rounding noise from the running sums.
+    const minGain = currentImpurity * 1e-12;
     let bestGain = 0;
     let bestFeature = 0;
     let bestThreshold = 0;
-    const currentImpurity = giniImpurity(y);
     
     const numFeatures = X[0]?.length || 0;
-    for (let feature = 0; feature < numFeatures; feature++) {
-      const values = [...new Set(X.map(row => row[feature]))].sort((a, b) => a - b);
+    for (const feature of sampleFeatures(numFeatures, subsetSize, random)) {
+      const order = X.map((_, idx) => idx).sort((a, b) => X[a][feature] - X[b][feature]);
+      const left = criterion.accumulator();
+      const right = criterion.accumulator();
+      y.forEach(value => right.add(value));
       
-      for (let i = 0; i < values.length - 1; i++) {
-        const threshold = (values[i] + values[i + 1]) / 2;
-        const leftIndices: number[] = [];
-        const rightIndices: number[] = [];
+      for (let i = 0; i < order.length - 1; i++) {
+        left.add(y[order[i]]);
+        right.remove(y[order[i]]);
+        const value = X[order[i]][feature];
+        const nextValue = X[order[i + 1]][feature];
+        if (value === nextValue) continue;
         
-        X.forEach((row, idx) => {
-          if (row[feature] <= threshold) {
-            leftIndices.push(idx);
-          } else {
-            rightIndices.push(idx);
-          }
-        });
-        
-        if (leftIndices.length === 0 || rightIndices.length === 0) continue;
-        
-        const leftY = leftIndices.map(i => y[i]);
-        const rightY = rightIndices.map(i => y[i]);
+        const leftCount = i + 1;
+        const rightCount = order.length - leftCount;
+        if (leftCount < minSamplesLeaf || rightCount < minSamplesLeaf) continue;
         
         const gain = currentImpurity - 
-          (leftY.length / y.length) * giniImpurity(leftY) -
-          (rightY.length / y.length) * giniImpurity(rightY);
+          (leftCount / y.length) * left.impurity() -
+          (rightCount / y.length) * right.impurity();
         
-        if (gain > bestGain) {
+        if (gain > bestGain && gain > minGain) {
           bestGain = gain;
           bestFeature = feature;
-          bestThreshold = threshold;
+          bestThreshold = (value + nextValue) / 2;
         }
       }
     }
     
     if (bestGain === 0) {
-      const counts: Record<number, number> = {};
-      y.forEach(val => counts[val] = (counts[val] || 0) + 1);
-      const prediction = Object.entries(counts).reduce((a, b) => 
-        a[1] > b[1] ? a : b
-      )[0];
-      return { prediction: parseInt(prediction) };
+      return leaf(y);
     }
+    nodesBuilt++;
+    if (importances) importances[bestFeature] += bestGain * y.length;
     
     const leftIndices: number[] = [];
     const rightIndices: number[] = [];
@@ -248,6 +965,7 @@ export function decisionTreeClassifier(
     });
     
     return {
+      ...describe(y),
       feature: bestFeature,
       threshold: bestThreshold,
       left: buildTree(
@@ -266,6 +984,45 @@ export function decisionTreeClassifier(
   return buildTree(X_train, y_train, 0);
 }
 
+// Decision Tree Classifier (Gini impurity, majority-vote leaves). numClasses
+// sizes the class counts kept on every node, so it must cover classes the
+// training rows (a bootstrap sample or fold) happen to lack.
+export function decisionTreeClassifier(
+  X_train: number[][],
+  y_train: number[],
+  numClasses: number,
+  options: TreeOptions = {},
+  onProgress?: TreeProgressCallback
+): TreeNode {
+  return buildDecisionTree(X_train, y_train, options, {
+    impurity: giniImpurity,
+    leafValue: majorityLabel,
+    summary: y => labelCounts(y, numClasses),
+    accumulator: giniAccumulator,
+  }, onProgress);
+}
+
+// Decision Tree Regressor (variance reduction, mean-value leaves)
+export function decisionTreeRegressor(
+  X_train: number[][],
+  y_train: number[],
+  options: TreeOptions = {},
+  onProgress?: TreeProgressCallback
+): TreeNode {
+  return buildDecisionTree(X_train, y_train, options, {
+    impurity: variance,
+    leafValue: mean,
+    summary: y => [mean(y)],
+    accumulator: varianceAccumulator,
+  }, onProgress);
+}
+
+// Scale importances to sum to 1; a tree without splits keeps all zeros
+export function normalizeImportances(importances: number[]): number[] {
+  const total = importances.reduce((a, b) => a + b, 0);
+  return total > 0 ? importances.map(value => value / total) : importances.map(() => 0);
+}
+
 export function predictDecisionTree(X: number[][], tree: TreeNode): number[] {
   function predictSingle(x: number[], node: TreeNode): number {
     if (node.prediction !== undefined) {
@@ -280,6 +1037,674 @@ export function predictDecisionTree(X: number[][], tree: TreeNode): number[] {
   return X.map(x => predictSingle(x, tree));
 }
 
+export type ForestOptions = Partial<RandomForestHyperparameters> & { random?: Random };
+
+// Reports the number of trees grown so far out of the total
+export type ForestProgressCallback = (treesBuilt: number, numTrees: number) => void;
+
+// Random forest: every tree is grown on a bootstrap sample of the rows and
+// considers a random feature subset at each split. Rows a tree never saw
+// (out-of-bag) give a free validation estimate.
+function fitForest(
+  X_train: number[][],
+  y_train: number[],
+  { numTrees = 50, maxDepth = 8, maxFeatures = 'sqrt', random = Math.random }: ForestOptions,
+  grow: (X: number[][], y: number[], options: TreeOptions) => TreeNode,
+  onProgress?: ForestProgressCallback
+): { trees: TreeNode[]; outOfBag: number[][]; featureImportances: number[] } {
+  const n = X_train.length;
+  const numFeatures = X_train[0]?.length || 0;
+  const trees: TreeNode[] = [];
+  const featureImportances = new Array(numFeatures).fill(0);
+  // Indices of the trees each row was out-of-bag for
+  const outOfBag: number[][] = Array.from({ length: n }, () => []);
+
+  for (let t = 0; t < numTrees; t++) {
+    const inBag = new Array<boolean>(n).fill(false);
+    const sample = Array.from({ length: n }, () => {
+      const i = Math.floor(random() * n);
+      inBag[i] = true;
+      return i;
+    });
+    const importances = new Array(numFeatures).fill(0);
+    trees.push(grow(sample.map(i => X_train[i]), sample.map(i => y_train[i]), { maxDepth, maxFeatures, random, importances }));
+    // Each tree's importances are normalized before averaging
+    normalizeImportances(importances).forEach((value, j) => (featureImportances[j] += value / numTrees));
+    inBag.forEach((seen, i) => {
+      if (!seen) outOfBag[i].push(t);
+    });
+    onProgress?.(t + 1, numTrees);
+  }
+
+  return { trees, outOfBag, featureImportances };
+}
+
+// Per-tree predictions, one row per tree
+function predictTrees(X: number[][], trees: TreeNode[]): number[][] {
+  return trees.map(tree => predictDecisionTree(X, tree));
+}
+
+// Share of trees voting for each class, one row per sample
+function voteShares(votes: number[][], numClasses: number, samples: number): number[][] {
+  return Array.from({ length: samples }, (_, i) => {
+    const shares = new Array(numClasses).fill(0);
+    votes.forEach(treeVotes => shares[treeVotes[i]]++);
+    return shares.map(count => (votes.length > 0 ? count / votes.length : 1 / numClasses));
+  });
+}
+
+export function randomForestClassifier(
+  X_train: number[][],
+  y_train: number[],
+  numClasses: number,
+  options: ForestOptions = {},
+  onProgress?: ForestProgressCallback
+): { trees: TreeNode[]; outOfBagScore: number | null; featureImportances: number[] } {
+  const { trees, outOfBag, featureImportances } = fitForest(
+    X_train,
+    y_train,
+    options,
+    (X, y, treeOptions) => decisionTreeClassifier(X, y, numClasses, treeOptions),
+    onProgress
+  );
+  const votes = predictTrees(X_train, trees);
+
+  // Majority vote over the trees that did not see each row
+  const yTrue: number[] = [];
+  const yPred: number[] = [];
+  outOfBag.forEach((treeIndices, i) => {
+    if (treeIndices.length === 0) return;
+    const counts = new Array(numClasses).fill(0);
+    treeIndices.forEach(t => counts[votes[t][i]]++);
+    yTrue.push(y_train[i]);
+    yPred.push(argmax(counts));
+  });
+
+  return { trees, outOfBagScore: yTrue.length > 0 ? calculateAccuracy(yTrue, yPred) : null, featureImportances };
+}
+
+export function randomForestRegressor(
+  X_train: number[][],
+  y_train: number[],
+  options: ForestOptions = {},
+  onProgress?: ForestProgressCallback
+): { trees: TreeNode[]; outOfBagScore: number | null; featureImportances: number[] } {
+  const { trees, outOfBag, featureImportances } = fitForest(X_train, y_train, options, decisionTreeRegressor, onProgress);
+  const predictions = predictTrees(X_train, trees);
+
+  // R² of the mean prediction of the trees that did not see each row
+  const yTrue: number[] = [];
+  const yPred: number[] = [];
+  outOfBag.forEach((treeIndices, i) => {
+    if (treeIndices.length === 0) return;
+    yTrue.push(y_train[i]);
+    yPred.push(mean(treeIndices.map(t => predictions[t][i])));
+  });
+
+  return { trees, outOfBagScore: yTrue.length > 1 ? r2Score(yTrue, yPred) : null, featureImportances };
+}
+
+// Class probabilities as the share of trees voting for each class
+export function predictProbaRandomForest(X: number[][], trees: TreeNode[], numClasses: number): number[][] {
+  return voteShares(predictTrees(X, trees), numClasses, X.length);
+}
+
+export function predictRandomForestClassifier(X: number[][], trees: TreeNode[], numClasses: number): number[] {
+  return predictProbaRandomForest(X, trees, numClasses).map(argmax);
+}
+
+export function predictRandomForestRegressor(X: number[][], trees: TreeNode[]): number[] {
+  const predictions = predictTrees(X, trees);
+  return X.map((_, i) => mean(predictions.map(treePredictions => treePredictions[i])));
+}
+
+export type BoostingProgressCallback = (round: number, numRounds: number, trainLoss: number, validationLoss: number | null) => void;
+
+// Follow a sample down to its leaf
+function leafOf(x: number[], node: TreeNode): TreeNode {
+  while (node.prediction === undefined) {
+    node = x[node.feature!] <= node.threshold! ? node.left! : node.right!;
+  }
+  return node;
+}
+
+// Scores to class probabilities: sigmoid of a single score for binary
+// problems, softmax over one score per class otherwise
+function boostingProbabilities(scores: number[]): number[] {
+  if (scores.length === 1) {
+    const p = sigmoid(scores[0]);
+    return [1 - p, p];
+  }
+  const max = Math.max(...scores);
+  const exps = scores.map(s => Math.exp(s - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / total);
+}
+
+function boostingScores(X: number[][], params: GradientBoostingParams): number[][] {
+  return X.map(x => {
+    const scores = [...params.initialScores];
+    params.trees.forEach(round =>
+      round.forEach((tree, k) => (scores[k] += params.learningRate * leafOf(x, tree).prediction!))
+    );
+    return scores;
+  });
+}
+
+// Gradient boosting classifier on the log-loss. Each round fits shallow
+// regression trees to the negative gradient (y − p) of a row subsample,
+// then sets every leaf to a Newton step Σr / Σp(1−p) (scaled by (K−1)/K
+// for K > 2 classes). With a validation fraction, training stops once the
+// validation loss has not improved for `patience` rounds and keeps the best
+// round.
+export function gradientBoostingClassifier(
+  X_train: number[][],
+  y_train: number[],
+  numClasses: number,
+  {
+    learningRate = 0.1,
+    numEstimators = 100,
+    maxDepth = 3,
+    subsample = 1,
+    validationFraction = 0.1,
+    patience = 10,
+  }: Partial<GradientBoostingHyperparameters> = {},
+  random: Random = Math.random,
+  onProgress?: BoostingProgressCallback
+): GradientBoostingParams & { history: BoostingHistory } {
+  const outputs = numClasses <= 2 ? 1 : numClasses;
+  const positive = (label: number, k: number) => (outputs === 1 ? label === 1 : label === k) ? 1 : 0;
+
+  const split = validationFraction > 0
+    ? trainTestSplitIndices(X_train.length, validationFraction, { random, stratifyLabels: y_train })
+    : { trainIndices: X_train.map((_, i) => i), testIndices: [] };
+  const fitIndices = split.trainIndices;
+  const validationIndices = split.testIndices;
+
+  // Start from the class priors (log-odds for binary, log-priors otherwise)
+  const initialScores = Array.from({ length: outputs }, (_, k) => {
+    const prior = Math.min(Math.max(mean(fitIndices.map(i => positive(y_train[i], k))), 1e-6), 1 - 1e-6);
+    return outputs === 1 ? Math.log(prior / (1 - prior)) : Math.log(prior);
+  });
+  const scores = X_train.map(() => [...initialScores]);
+
+  const loss = (indices: number[]) =>
+    logLoss(indices.map(i => y_train[i]), indices.map(i => boostingProbabilities(scores[i])));
+
+  const trees: TreeNode[][] = [];
+  const rounds: BoostingHistory['rounds'] = [];
+  let bestRound = 0;
+  let bestLoss = Infinity;
+
+  for (let round = 1; round <= numEstimators; round++) {
+    const probabilities = scores.map(boostingProbabilities);
+    const rows = subsample < 1
+      ? shuffleInPlace([...fitIndices], random).slice(0, Math.max(1, Math.round(fitIndices.length * subsample)))
+      : fitIndices;
+
+    const roundTrees = Array.from({ length: outputs }, (_, k) => {
+      const classIndex = outputs === 1 ? 1 : k;
+      const residuals = rows.map(i => positive(y_train[i], k) - probabilities[i][classIndex]);
+      const tree = decisionTreeRegressor(rows.map(i => X_train[i]), residuals, { maxDepth, random });
+
+      // Newton step per leaf
+      const sums = new Map<TreeNode, { gradient: number; hessian: number }>();
+      rows.forEach((i, r) => {
+        const leaf = leafOf(X_train[i], tree);
+        const p = probabilities[i][classIndex];
+        const entry = sums.get(leaf) ?? { gradient: 0, hessian: 0 };
+        entry.gradient += residuals[r];
+        entry.hessian += p * (1 - p);
+        sums.set(leaf, entry);
+      });
+      const scale = outputs === 1 ? 1 : (outputs - 1) / outputs;
+      sums.forEach(({ gradient, hessian }, leaf) => {
+        leaf.prediction = hessian > 1e-12 ? (scale * gradient) / hessian : 0;
+      });
+      return tree;
+    });
+
+    trees.push(roundTrees);
+    X_train.forEach((x, i) => {
+      roundTrees.forEach((tree, k) => (scores[i][k] += learningRate * leafOf(x, tree).prediction!));
+    });
+
+    const trainLoss = loss(fitIndices);
+    const validationLoss = validationIndices.length > 0 ? loss(validationIndices) : null;
+    rounds.push({ train: trainLoss, validation: validationLoss });
+    onProgress?.(round, numEstimators, trainLoss, validationLoss);
+
+    const monitored = validationLoss ?? trainLoss;
+    if (monitored < bestLoss) {
+      bestLoss = monitored;
+      bestRound = round;
+    } else if (validationLoss !== null && round - bestRound >= patience) {
+      break;
+    }
+  }
+
+  return {
+    initialScores,
+    learningRate,
+    trees: trees.slice(0, Math.max(bestRound, 1)),
+    history: { rounds, bestRound: Math.max(bestRound, 1) },
+  };
+}
+
+export function predictProbaGradientBoosting(X: number[][], params: GradientBoostingParams): number[][] {
+  return boostingScores(X, params).map(boostingProbabilities);
+}
+
+export function predictGradientBoosting(X: number[][], params: GradientBoostingParams): number[] {
+  return predictProbaGradientBoosting(X, params).map(argmax);
+}
+
+// Turn scores or log-probabilities into probabilities that sum to 1,
+// shifted by the maximum for numerical stability
+function softmax(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const exps = scores.map(s => Math.exp(s - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / total);
+}
+
+function euclideanDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < a.length; j++) sum += (a[j] - b[j]) ** 2;
+  return Math.sqrt(sum);
+}
+
+function manhattanDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < a.length; j++) sum += Math.abs(a[j] - b[j]);
+  return sum;
+}
+
+function norm(x: number[]): number {
+  return Math.sqrt(x.reduce((sum, v) => sum + v * v, 0));
+}
+
+// k nearest training rows of every sample, closest first. Cosine distance is
+// 1 − cos θ; an all-zero row is at distance 1 from everything.
+function nearestNeighbors(
+  X: number[][],
+  params: KnnParams,
+  k: number,
+  metric: DistanceMetric
+): { index: number; distance: number }[][] {
+  // Votes and means over no neighbours are undefined
+  if (!(k >= 1)) {
+    throw new Error(`k-nearest neighbours needs k of at least 1, got ${k}`);
+  }
+  if (params.X.length === 0) {
+    throw new Error('k-nearest neighbours has no training rows to compare with');
+  }
+  const trainNorms = metric === 'cosine' ? params.X.map(norm) : null;
+  const count = Math.min(k, params.X.length);
+
+  return X.map(x => {
+    const xNorm = trainNorms ? norm(x) : 0;
+    const nearest: { index: number; distance: number }[] = [];
+
+    params.X.forEach((row, index) => {
+      let distance: number;
+      if (metric === 'manhattan') {
+        distance = manhattanDistance(x, row);
+      } else if (metric === 'cosine') {
+        const denominator = xNorm * trainNorms[index];
+        const dot = x.reduce((sum, v, j) => sum + v * row[j], 0);
+        distance = denominator > 0 ? 1 - dot / denominator : 1;
+      } else {
+        distance = euclideanDistance(x, row);
+      }
+      if (nearest.length === count && distance >= nearest[count - 1].distance) return;
+
+      // Insertion into the sorted shortlist
+      let position = Math.min(nearest.length, count - 1);
+      while (position > 0 && nearest[position - 1].distance > distance) position--;
+      nearest.splice(position, 0, { index, distance });
+      if (nearest.length > count) nearest.pop();
+    });
+
+    return nearest;
+  });
+}
+
+// Vote weights for a neighbour list. With inverse-distance weighting, exact
+// matches (distance 0) take all the weight.
+function neighborWeights(neighbors: { distance: number }[], weighting: KnnHyperparameters['weighting']): number[] {
+  if (weighting === 'uniform') return neighbors.map(() => 1);
+  if (neighbors.some(n => n.distance === 0)) return neighbors.map(n => (n.distance === 0 ? 1 : 0));
+  return neighbors.map(n => 1 / n.distance);
+}
+
+// k-nearest neighbours keeps the training set as is; all the work happens at
+// prediction time
+export function knnFit(X: number[][], y: number[]): KnnParams {
+  return { X: X.map(row => [...row]), y: [...y] };
+}
+
+// Class probabilities as the (weighted) share of neighbour votes
+export function predictProbaKnn(
+  X: number[][],
+  params: KnnParams,
+  hyperparameters: KnnHyperparameters,
+  numClasses: number
+): number[][] {
+  return nearestNeighbors(X, params, hyperparameters.k, hyperparameters.metric).map(neighbors => {
+    const weights = neighborWeights(neighbors, hyperparameters.weighting);
+    const total = weights.reduce((a, b) => a + b, 0);
+    const votes = new Array(numClasses).fill(0);
+    neighbors.forEach((n, i) => { votes[params.y[n.index]] += weights[i] / total; });
+    return votes;
+  });
+}
+
+export function predictKnnClassifier(
+  X: number[][],
+  params: KnnParams,
+  hyperparameters: KnnHyperparameters,
+  numClasses: number
+): number[] {
+  return predictProbaKnn(X, params, hyperparameters, numClasses).map(argmax);
+}
+
+// Regression: (weighted) mean target of the neighbours
+export function predictKnnRegressor(X: number[][], params: KnnParams, hyperparameters: KnnHyperparameters): number[] {
+  return nearestNeighbors(X, params, hyperparameters.k, hyperparameters.metric).map(neighbors => {
+    const weights = neighborWeights(neighbors, hyperparameters.weighting);
+    const total = weights.reduce((a, b) => a + b, 0);
+    return neighbors.reduce((sum, n, i) => sum + params.y[n.index] * weights[i], 0) / total;
+  });
+}
+
+// Log class priors. Classes missing from the training labels get the log of
+// the smallest positive double rather than -Infinity, which JSON cannot hold.
+function logPriors(y: number[], numClasses: number): number[] {
+  return labelCounts(y, numClasses).map(count => Math.log(Math.max(count / y.length, Number.MIN_VALUE)));
+}
+
+// Gaussian Naive Bayes: every feature is normally distributed within each
+// class. varSmoothing · (largest feature variance) is added to every variance
+// so constant features do not produce zero variances.
+export function gaussianNaiveBayes(
+  X: number[][],
+  y: number[],
+  numClasses: number,
+  hyperparameters: Partial<GaussianNBHyperparameters> = {}
+): GaussianNBParams {
+  const { varSmoothing = 1e-9 } = hyperparameters;
+  const numFeatures = X[0]?.length ?? 0;
+  const columns = Array.from({ length: numFeatures }, (_, j) => X.map(row => row[j]));
+  const epsilon = Math.max(varSmoothing * Math.max(0, ...columns.map(variance)), 1e-12);
+  const byClass = indicesByClass(y);
+
+  const means: number[][] = [];
+  const variances: number[][] = [];
+  for (let k = 0; k < numClasses; k++) {
+    const indices = byClass.find(group => y[group[0]] === k) ?? [];
+    means.push(columns.map(column => (indices.length ? mean(indices.map(i => column[i])) : 0)));
+    variances.push(columns.map(column => (indices.length ? variance(indices.map(i => column[i])) : 0) + epsilon));
+  }
+
+  return { logPriors: logPriors(y, numClasses), means, variances };
+}
+
+export function predictProbaGaussianNB(X: number[][], params: GaussianNBParams): number[][] {
+  return X.map(x => softmax(params.logPriors.map((logPrior, k) =>
+    x.reduce((sum, value, j) => {
+      const v = params.variances[k][j];
+      return sum - 0.5 * Math.log(2 * Math.PI * v) - (value - params.means[k][j]) ** 2 / (2 * v);
+    }, logPrior)
+  )));
+}
+
+export function predictGaussianNB(X: number[][], params: GaussianNBParams): number[] {
+  return predictProbaGaussianNB(X, params).map(argmax);
+}
+
+// Category of a value: the number of bin edges below it
+function binIndex(value: number, edges: number[]): number {
+  let lo = 0;
+  let hi = edges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (edges[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Bin edges for one feature. Features with at most `bins` distinct values
+// (encoded categories, flags, small counts) keep one category per value;
+// the rest are cut at training quantiles.
+function categoryEdges(values: number[], bins: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const distinct = sorted.filter((v, i) => i === 0 || v !== sorted[i - 1]);
+  if (distinct.length <= bins) {
+    return distinct.slice(1).map((v, i) => (distinct[i] + v) / 2);
+  }
+  const edges: number[] = [];
+  for (let b = 1; b < bins; b++) {
+    const edge = sorted[Math.floor((b * sorted.length) / bins) - 1];
+    if (edge < sorted[sorted.length - 1] && edge !== edges[edges.length - 1]) edges.push(edge);
+  }
+  return edges;
+}
+
+// Categorical Naive Bayes: every feature is treated as a category (binned
+// if continuous) with Laplace-smoothed frequencies per class
+export function categoricalNaiveBayes(
+  X: number[][],
+  y: number[],
+  numClasses: number,
+  hyperparameters: Partial<CategoricalNBHyperparameters> = {}
+): CategoricalNBParams {
+  const { alpha = 1, bins = 5 } = hyperparameters;
+  const numFeatures = X[0]?.length ?? 0;
+  const edges = Array.from({ length: numFeatures }, (_, j) => categoryEdges(X.map(row => row[j]), bins));
+
+  const classCounts = new Array(numClasses).fill(0);
+  const counts = Array.from({ length: numClasses }, () =>
+    edges.map(featureEdges => new Array(featureEdges.length + 1).fill(0))
+  );
+  X.forEach((row, i) => {
+    classCounts[y[i]]++;
+    row.forEach((value, j) => counts[y[i]][j][binIndex(value, edges[j])]++);
+  });
+
+  const logLikelihoods = counts.map((features, k) =>
+    features.map(categories =>
+      categories.map(count => Math.log((count + alpha) / (classCounts[k] + alpha * categories.length)))
+    )
+  );
+
+  return { logPriors: logPriors(y, numClasses), edges, logLikelihoods };
+}
+
+export function predictProbaCategoricalNB(X: number[][], params: CategoricalNBParams): number[][] {
+  return X.map(x => softmax(params.logPriors.map((logPrior, k) =>
+    x.reduce((sum, value, j) => sum + params.logLikelihoods[k][j][binIndex(value, params.edges[j])], logPrior)
+  )));
+}
+
+export function predictCategoricalNB(X: number[][], params: CategoricalNBParams): number[] {
+  return predictProbaCategoricalNB(X, params).map(argmax);
+}
+
+// Reports the epoch just finished and its mean training loss
+export type EpochProgressCallback = (epoch: number, epochs: number, loss: number) => void;
+
+// Standard normal draw (Box-Muller)
+function gaussian(random: Random): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function activate(z: number, activation: MlpActivation): number {
+  if (activation === 'relu') return z > 0 ? z : 0;
+  if (activation === 'tanh') return Math.tanh(z);
+  return sigmoid(z);
+}
+
+// Derivative of the activation, written in terms of its output
+function activationGradient(a: number, activation: MlpActivation): number {
+  if (activation === 'relu') return a > 0 ? 1 : 0;
+  if (activation === 'tanh') return 1 - a * a;
+  return a * (1 - a);
+}
+
+// Outputs of every layer for one sample, starting with the input itself.
+// The last entry holds the raw output scores.
+function mlpForward(x: number[], params: MlpParams): number[][] {
+  const outputs = [x];
+  params.layers.forEach((layer, l) => {
+    const input = outputs[l];
+    const hidden = l < params.layers.length - 1;
+    outputs.push(layer.weights.map((w, u) => {
+      let z = layer.biases[u];
+      for (let i = 0; i < input.length; i++) z += w[i] * input[i];
+      return hidden ? activate(z, params.activation) : z;
+    }));
+  });
+  return outputs;
+}
+
+const zerosLike = (layers: DenseLayer[]): DenseLayer[] =>
+  layers.map(layer => ({
+    weights: layer.weights.map(w => new Array(w.length).fill(0)),
+    biases: new Array(layer.biases.length).fill(0),
+  }));
+
+// Multilayer perceptron trained with mini-batch Adam. Classification uses a
+// softmax output with the cross-entropy loss, regression a single linear
+// output with half the squared error on standardized targets. Weights start
+// from He (ReLU) or Glorot-style normal draws.
+export function mlpFit(
+  X_train: number[][],
+  y_train: number[],
+  numClasses: number | null,
+  {
+    hiddenLayers = 1,
+    hiddenUnits = 32,
+    activation = 'relu',
+    epochs = 100,
+    batchSize = 32,
+    learningRate = 0.01,
+  }: Partial<MlpHyperparameters> = {},
+  random: Random = Math.random,
+  onEpoch?: EpochProgressCallback
+): MlpParams {
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const epsilon = 1e-8;
+
+  const numFeatures = X_train[0]?.length || 0;
+  const sizes = [numFeatures, ...new Array(hiddenLayers).fill(hiddenUnits), numClasses ?? 1];
+  const layers: DenseLayer[] = sizes.slice(1).map((units, l) => {
+    const fanIn = sizes[l];
+    const scale = Math.sqrt((activation === 'relu' ? 2 : 1) / Math.max(fanIn, 1));
+    return {
+      weights: Array.from({ length: units }, () => Array.from({ length: fanIn }, () => gaussian(random) * scale)),
+      biases: new Array(units).fill(0),
+    };
+  });
+
+  const { mean: targetMean, std } = numClasses === null ? meanAndStd(y_train) : { mean: 0, std: 1 };
+  const targetStd = std > 0 ? std : 1;
+  const targets = numClasses === null ? y_train.map(v => (v - targetMean) / targetStd) : y_train;
+  const params: MlpParams = { activation, layers, targetMean, targetStd };
+
+  const firstMoment = zerosLike(layers);
+  const secondMoment = zerosLike(layers);
+  let step = 0;
+  const order = X_train.map((_, i) => i);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    shuffleInPlace(order, random);
+    let epochLoss = 0;
+
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize);
+      const gradients = zerosLike(layers);
+
+      batch.forEach(i => {
+        const outputs = mlpForward(X_train[i], params);
+        const scores = outputs[outputs.length - 1];
+
+        // Gradient of the loss with respect to the output scores
+        let delta: number[];
+        if (numClasses === null) {
+          const error = scores[0] - targets[i];
+          epochLoss += 0.5 * error * error;
+          delta = [error];
+        } else {
+          const probabilities = softmax(scores);
+          epochLoss -= Math.log(Math.max(probabilities[targets[i]], 1e-15));
+          delta = probabilities.map((p, k) => p - (k === targets[i] ? 1 : 0));
+        }
+
+        for (let l = layers.length - 1; l >= 0; l--) {
+          const input = outputs[l];
+          const { weights } = layers[l];
+          const gradient = gradients[l];
+          delta.forEach((d, u) => {
+            gradient.biases[u] += d;
+            const row = gradient.weights[u];
+            for (let j = 0; j < input.length; j++) row[j] += d * input[j];
+          });
+          if (l > 0) {
+            delta = input.map((a, j) =>
+              delta.reduce((sum, d, u) => sum + d * weights[u][j], 0) * activationGradient(a, activation)
+            );
+          }
+        }
+      });
+
+      // Adam update with bias-corrected moment estimates
+      step++;
+      const correction1 = 1 - beta1 ** step;
+      const correction2 = 1 - beta2 ** step;
+      const update = (values: number[], grads: number[], m: number[], v: number[]) => {
+        for (let j = 0; j < values.length; j++) {
+          const g = grads[j] / batch.length;
+          m[j] = beta1 * m[j] + (1 - beta1) * g;
+          v[j] = beta2 * v[j] + (1 - beta2) * g * g;
+          values[j] -= (learningRate * (m[j] / correction1)) / (Math.sqrt(v[j] / correction2) + epsilon);
+        }
+      };
+      layers.forEach((layer, l) => {
+        layer.weights.forEach((w, u) =>
+          update(w, gradients[l].weights[u], firstMoment[l].weights[u], secondMoment[l].weights[u])
+        );
+        update(layer.biases, gradients[l].biases, firstMoment[l].biases, secondMoment[l].biases);
+      });
+    }
+
+    onEpoch?.(epoch + 1, epochs, epochLoss / order.length);
+  }
+
+  return params;
+}
+
+// Class probabilities from the softmax output
+export function predictProbaMlp(X: number[][], params: MlpParams): number[][] {
+  return X.map(x => {
+    const outputs = mlpForward(x, params);
+    return softmax(outputs[outputs.length - 1]);
+  });
+}
+
+export function predictMlpClassifier(X: number[][], params: MlpParams): number[] {
+  return predictProbaMlp(X, params).map(argmax);
+}
+
+export function predictMlpRegressor(X: number[][], params: MlpParams): number[] {
+  return X.map(x => {
+    const outputs = mlpForward(x, params);
+    return outputs[outputs.length - 1][0] * params.targetStd + params.targetMean;
+  });
+}
+
 // Calculate accuracy
 export function calculateAccuracy(yTrue: number[], yPred: number[]): number {
   if (yTrue.length === 0) return 0;
@@ -287,9 +1712,12 @@ export function calculateAccuracy(yTrue: number[], yPred: number[]): number {
   return correct / yTrue.length;
 }
 
-// Calculate confusion matrix
-export function confusionMatrix(yTrue: number[], yPred: number[]): number[][] {
-  const labels = [...new Set([...yTrue, ...yPred])].sort((a, b) => a - b);
+// Calculate confusion matrix. When numClasses is given the matrix is
+// numClasses × numClasses and indexed directly by encoded label.
+export function confusionMatrix(yTrue: number[], yPred: number[], numClasses?: number): number[][] {
+  const labels = numClasses !== undefined
+    ? Array.from({ length: numClasses }, (_, i) => i)
+    : [...new Set([...yTrue, ...yPred])].sort((a, b) => a - b);
   const matrix = labels.map(() => labels.map(() => 0));
   
   yTrue.forEach((actual, i) => {
@@ -301,3 +1729,335 @@ export function confusionMatrix(yTrue: number[], yPred: number[]): number[][] {
   
   return matrix;
 }
+
+// Per-class precision, recall and F1 from a confusion matrix (rows are
+// actual classes). Classes that never occur in either labels or predictions
+// are left out of the averages; an undefined ratio counts as 0.
+export function classificationReport(matrix: number[][]): ClassificationReport {
+  const perClass: ClassScores[] = matrix.map((row, k) => {
+    const truePositives = row[k];
+    const support = row.reduce((a, b) => a + b, 0);
+    const predicted = matrix.reduce((sum, r) => sum + r[k], 0);
+    const precision = predicted > 0 ? truePositives / predicted : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { precision, recall, f1, support };
+  });
+
+  const present = perClass.filter((c, k) => c.support > 0 || matrix.some(r => r[k] > 0));
+  const average = (weight: (c: ClassScores) => number): AveragedScores => {
+    const weights = present.map(weight);
+    const sum = weights.reduce((a, b) => a + b, 0);
+    const of = (key: keyof AveragedScores) =>
+      sum > 0 ? present.reduce((acc, c, i) => acc + c[key] * weights[i], 0) / sum : 0;
+    return { precision: of('precision'), recall: of('recall'), f1: of('f1') };
+  };
+
+  return {
+    perClass,
+    macro: average(() => 1),
+    weighted: average(c => c.support),
+  };
+}
+
+// Mean recall over the classes that occur in the labels
+export function balancedAccuracy(matrix: number[][]): number {
+  const recalls = matrix
+    .map((row, k) => {
+      const support = row.reduce((a, b) => a + b, 0);
+      return support > 0 ? row[k] / support : null;
+    })
+    .filter((r): r is number => r !== null);
+  return recalls.length > 0 ? mean(recalls) : 0;
+}
+
+// Matthews correlation coefficient, multiclass form (Gorodkin's R_K).
+// Ranges from -1 to 1; 0 when it is undefined.
+export function matthewsCorrelation(matrix: number[][]): number {
+  const total = matrix.flat().reduce((a, b) => a + b, 0);
+  const correct = matrix.reduce((sum, row, k) => sum + row[k], 0);
+  const actual = matrix.map(row => row.reduce((a, b) => a + b, 0));
+  const predicted = matrix.map((_, k) => matrix.reduce((sum, row) => sum + row[k], 0));
+  const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+  const numerator = correct * total - dot(actual, predicted);
+  const denominator = Math.sqrt((total ** 2 - dot(predicted, predicted)) * (total ** 2 - dot(actual, actual)));
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+// Cross-entropy of the predicted probability of each true class
+export function logLoss(yTrue: number[], probabilities: number[][]): number {
+  if (yTrue.length === 0) return 0;
+  const eps = 1e-15;
+  return -yTrue.reduce((sum, k, i) => sum + Math.log(Math.min(Math.max(probabilities[i][k], eps), 1 - eps)), 0) / yTrue.length;
+}
+
+// Area under the ROC curve via the rank statistic (Mann-Whitney U), with
+// tied scores sharing their average rank. null without both classes.
+function binaryAuc(positive: boolean[], scores: number[]): number | null {
+  const numPositive = positive.filter(Boolean).length;
+  const numNegative = positive.length - numPositive;
+  if (numPositive === 0 || numNegative === 0) return null;
+
+  const order = scores.map((score, i) => ({ score, i })).sort((a, b) => a.score - b.score);
+  let positiveRankSum = 0;
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let j = start; j <= end; j++) {
+      if (positive[order[j].i]) positiveRankSum += averageRank;
+    }
+    start = end + 1;
+  }
+  return (positiveRankSum - (numPositive * (numPositive + 1)) / 2) / (numPositive * numNegative);
+}
+
+// ROC-AUC from class probabilities. Binary problems score class 1;
+// multiclass problems average one-vs-rest AUCs over classes present in yTrue.
+export function rocAucScore(yTrue: number[], probabilities: number[][]): number | null {
+  const numClasses = probabilities[0]?.length ?? 0;
+  if (numClasses === 2) {
+    return binaryAuc(yTrue.map(k => k === 1), probabilities.map(p => p[1]));
+  }
+  const aucs = Array.from({ length: numClasses }, (_, k) =>
+    binaryAuc(yTrue.map(label => label === k), probabilities.map(p => p[k]))
+  ).filter((auc): auc is number => auc !== null);
+  return aucs.length > 0 ? mean(aucs) : null;
+}
+
+export interface RocPoint {
+  threshold: number;
+  fpr: number;
+  tpr: number;
+}
+
+export interface PrecisionRecallPoint {
+  threshold: number;
+  precision: number;
+  recall: number;
+}
+
+// Confusion counts at every distinct score, from the highest threshold down.
+// A sample is predicted positive when its score is >= the threshold.
+function thresholdCounts(positive: boolean[], scores: number[]) {
+  const order = scores.map((score, i) => ({ score, positive: positive[i] })).sort((a, b) => b.score - a.score);
+  const counts: { threshold: number; tp: number; fp: number }[] = [];
+  let tp = 0;
+  let fp = 0;
+  order.forEach((sample, i) => {
+    if (sample.positive) tp++;
+    else fp++;
+    if (i === order.length - 1 || order[i + 1].score !== sample.score) {
+      counts.push({ threshold: sample.score, tp, fp });
+    }
+  });
+  return { counts, numPositive: tp, numNegative: fp };
+}
+
+// ROC curve for one positive class, starting at (0, 0) and ending at (1, 1)
+export function rocCurve(positive: boolean[], scores: number[]): RocPoint[] {
+  const { counts, numPositive, numNegative } = thresholdCounts(positive, scores);
+  return [
+    { threshold: Infinity, fpr: 0, tpr: 0 },
+    ...counts.map(({ threshold, tp, fp }) => ({
+      threshold,
+      fpr: numNegative > 0 ? fp / numNegative : 0,
+      tpr: numPositive > 0 ? tp / numPositive : 0,
+    })),
+  ];
+}
+
+// Precision-recall curve for one positive class, from the highest threshold
+// (lowest recall) down
+export function precisionRecallCurve(positive: boolean[], scores: number[]): PrecisionRecallPoint[] {
+  const { counts, numPositive } = thresholdCounts(positive, scores);
+  return counts.map(({ threshold, tp, fp }) => ({
+    threshold,
+    precision: tp / (tp + fp),
+    recall: numPositive > 0 ? tp / numPositive : 0,
+  }));
+}
+
+// Area under the precision-recall curve as the step-wise sum
+// Σ (R_n − R_{n−1}) · P_n
+export function averagePrecision(curve: PrecisionRecallPoint[]): number {
+  let previousRecall = 0;
+  return curve.reduce((sum, point) => {
+    const area = (point.recall - previousRecall) * point.precision;
+    previousRecall = point.recall;
+    return sum + area;
+  }, 0);
+}
+
+// Binary labels from class probabilities: class 1 when its probability
+// reaches the threshold
+export function predictWithThreshold(probabilities: number[][], threshold: number): number[] {
+  return probabilities.map(p => (p[1] >= threshold ? 1 : 0));
+}
+
+// Regression metrics
+export function meanAbsoluteError(yTrue: number[], yPred: number[]): number {
+  if (yTrue.length === 0) return 0;
+  return yTrue.reduce((sum, val, i) => sum + Math.abs(val - yPred[i]), 0) / yTrue.length;
+}
+
+export function rootMeanSquaredError(yTrue: number[], yPred: number[]): number {
+  if (yTrue.length === 0) return 0;
+  return Math.sqrt(yTrue.reduce((sum, val, i) => sum + (val - yPred[i]) ** 2, 0) / yTrue.length);
+}
+
+// Coefficient of determination; 0 when the targets have no variance
+export function r2Score(yTrue: number[], yPred: number[]): number {
+  if (yTrue.length === 0) return 0;
+  const yMean = mean(yTrue);
+  const ssTot = yTrue.reduce((sum, val) => sum + (val - yMean) ** 2, 0);
+  const ssRes = yTrue.reduce((sum, val, i) => sum + (val - yPred[i]) ** 2, 0);
+  return ssTot === 0 ? 0 : 1 - ssRes / ssTot;
+}
+
+// Permutation importance: the drop in score when the columns of one group are
+// shuffled together across rows, breaking their link to the target. Groups
+// let the encoded columns of one raw feature move as a unit.
+export function permutationImportance(
+  X: number[][],
+  y: number[],
+  groups: number[][],
+  predict: (X: number[][]) => number[],
+  score: (yTrue: number[], yPred: number[]) => number,
+  repeats: number,
+  random: Random
+): { mean: number[]; std: number[] } {
+  const baseline = score(y, predict(X));
+  const drops = groups.map(columns =>
+    Array.from({ length: repeats }, () => {
+      const order = shuffleInPlace(X.map((_, i) => i), random);
+      const permuted = X.map((row, i) => {
+        const copy = [...row];
+        columns.forEach(j => (copy[j] = X[order[i]][j]));
+        return copy;
+      });
+      return baseline - score(y, predict(permuted));
+    })
+  );
+  return {
+    mean: drops.map(values => meanAndStd(values).mean),
+    std: drops.map(values => meanAndStd(values).std),
+  };
+}
+
+// Linear weights times each feature's standard deviation over X, one row per
+// weight row
+export function standardizedCoefficients(weights: number[][], X: number[][]): number[][] {
+  const stds = (X[0] ?? []).map((_, j) => Math.sqrt(variance(X.map(row => row[j]))));
+  return weights.map(row => row.map((w, j) => w * stds[j]));
+}
+
+// Saabas path contributions: following a row down the tree, each split's
+// feature is credited with the change in node output it causes. The root
+// output plus all contributions equals the leaf output exactly.
+export function treePathContributions(
+  x: number[],
+  tree: TreeNode,
+  output: (node: TreeNode) => number
+): { base: number; contributions: number[] } {
+  const contributions = new Array(x.length).fill(0);
+  let node = tree;
+  while (node.prediction === undefined) {
+    const child = x[node.feature!] <= node.threshold! ? node.left! : node.right!;
+    contributions[node.feature!] += output(child) - output(node);
+    node = child;
+  }
+  return { base: output(tree), contributions };
+}
+
+// Sampling Shapley values (Štrumbelj & Kononenko): for each group, average
+// f(with the group's values from x) − f(without) over random feature orderings,
+// where features ahead of the group in the ordering come from x and the rest
+// from a random background row. All sampled rows are scored in one batch.
+export function samplingShapley(
+  f: (X: number[][]) => number[],
+  x: number[],
+  background: number[][],
+  groups: number[][],
+  samples: number,
+  random: Random
+): number[] {
+  const rows: number[][] = [];
+  groups.forEach((group, g) => {
+    for (let s = 0; s < samples; s++) {
+      const z = background[Math.floor(random() * background.length)];
+      const order = shuffleInPlace(groups.map((_, h) => h), random);
+      const without = [...z];
+      order.slice(0, order.indexOf(g)).forEach(h => groups[h].forEach(j => (without[j] = x[j])));
+      const withGroup = [...without];
+      group.forEach(j => (withGroup[j] = x[j]));
+      rows.push(withGroup, without);
+    }
+  });
+
+  const outputs = f(rows);
+  return groups.map((_, g) => {
+    let total = 0;
+    for (let s = 0; s < samples; s++) {
+      const k = 2 * (g * samples + s);
+      total += outputs[k] - outputs[k + 1];
+    }
+    return total / samples;
+  });
+}
+
+// Grid over a feature's training range: its distinct values when there are
+// at most `points` of them, otherwise evenly spaced from min to max
+export function featureGrid(X: number[][], feature: number, points: number): number[] {
+  const distinct = [...new Set(X.map(row => row[feature]))].sort((a, b) => a - b);
+  if (distinct.length <= points) return distinct;
+  const min = distinct[0];
+  const step = (distinct[distinct.length - 1] - min) / (points - 1);
+  return Array.from({ length: points }, (_, i) => min + i * step);
+}
+
+// Partial dependence with individual conditional expectation curves: every
+// row of X is scored with the feature set to each grid value. ice[i][g] is
+// row i's output at grid[g]; average is their mean over rows.
+export function partialDependence(
+  f: (X: number[][]) => number[],
+  X: number[][],
+  feature: number,
+  grid: number[]
+): { average: number[]; ice: number[][] } {
+  const rows = X.flatMap(row => grid.map(value => {
+    const copy = [...row];
+    copy[feature] = value;
+    return copy;
+  }));
+  const outputs = f(rows);
+  const ice = X.map((_, i) => outputs.slice(i * grid.length, (i + 1) * grid.length));
+  const average = grid.map((_, g) => ice.reduce((sum, curve) => sum + curve[g], 0) / ice.length);
+  return { average, ice };
+}
+
+// Two-feature partial dependence: surface[a][b] is the mean output with the
+// first feature at grids[0][a] and the second at grids[1][b]
+export function partialDependence2D(
+  f: (X: number[][]) => number[],
+  X: number[][],
+  features: [number, number],
+  grids: [number[], number[]]
+): number[][] {
+  const [first, second] = features;
+  const [gridA, gridB] = grids;
+  const cells = gridA.length * gridB.length;
+  const rows = X.flatMap(row => gridA.flatMap(a => gridB.map(b => {
+    const copy = [...row];
+    copy[first] = a;
+    copy[second] = b;
+    return copy;
+  })));
+  const outputs = f(rows);
+  return gridA.map((_, a) => gridB.map((_, b) => {
+    let total = 0;
+    for (let i = 0; i < X.length; i++) total += outputs[i * cells + a * gridB.length + b];
+    return total / X.length;
+  }));
+}
@@ -0,0 +1,483 @@
+// Export and import of trained models as versioned JSON bundles
+import { z } from 'zod';
+import {
+  Dataset,
+  ModelBundle,
+  PipelineConfig,
+  TrainedModel,
+  TrainingResults,
+  TreeNode,
+} from '@/types/pipeline';
+import { DEFAULT_HYPERPARAMETERS } from '@/lib/hyperparameters';
+import { DEFAULT_SEED } from '@/lib/pipeline';
+import { balancedAccuracy, classificationReport, matthewsCorrelation } from '@/lib/ml-utils';
+
+export const MODEL_BUNDLE_FORMAT = 'ml-pipeline-model';
+// Bump whenever the bundle schema changes. Older bundles still import: the
+// fields added since are optional, have defaults below or are derived in
+// upgradeResults. Newer ones are refused, since this build would drop or
+// misread what it does not know.
+//   1: logistic, decision tree, linear and ridge models
+//   2: numeric column stats for the prediction playground
+//   3: hyperparameters, cross-validation, the split seed and fuller
+//      classification metrics
+//   4: test labels and probabilities, the other model types, tuning,
+//      boosting history, tree node statistics and feature importance
+export const MODEL_BUNDLE_VERSION = 4;
+
+const numberArray = z.array(z.number());
+const distanceMetricSchema = z.enum(['euclidean', 'manhattan', 'cosine']);
+const mlpActivationSchema = z.enum(['relu', 'tanh', 'sigmoid']);
+
+const configSchema = z.object({
+  taskType: z.enum(['classification', 'regression']),
+  preprocessing: z.enum(['none', 'standard', 'minmax']),
+  imputation: z.object({
+    strategy: z.enum(['mean', 'median', 'mode', 'constant', 'drop', 'indicator']),
+    fillValue: z.string(),
+  }),
+  categoricalEncodings: z.record(z.enum(['onehot', 'ordinal', 'target', 'frequency'])),
+  splitRatio: z.number().min(0).max(1),
+  seed: z.number().int().min(0).default(DEFAULT_SEED),
+  stratify: z.boolean().default(false),
+  targetColumn: z.string(),
+  featureColumns: z.array(z.string()).min(1),
+  modelType: z.enum([
+    'logistic',
+    'decision_tree',
+    'random_forest',
+    'gradient_boosting',
+    'knn',
+    'gaussian_nb',
+    'categorical_nb',
+    'linear_svm',
+    'mlp',
+    'linear',
+    'ridge',
+  ]),
+  // Bundles exported before hyperparameters were configurable used the defaults
+  hyperparameters: z
+    .object({
+      logistic: z.object({
+        learningRate: z.number().positive(),
+        iterations: z.number().int().positive(),
+        regularization: z.enum(['none', 'l1', 'l2']),
+        regularizationStrength: z.number().min(0),
+      }),
+      decision_tree: z.object({
+        maxDepth: z.number().int().positive(),
+        minSamplesSplit: z.number().int().min(2),
+        minSamplesLeaf: z.number().int().positive(),
+        maxFeatures: z.enum(['all', 'sqrt', 'log2']),
+      }),
+      random_forest: z
+        .object({
+          numTrees: z.number().int().positive(),
+          maxDepth: z.number().int().positive(),
+          maxFeatures: z.enum(['all', 'sqrt', 'log2']),
+        })
+        .default(DEFAULT_HYPERPARAMETERS.random_forest),
+      gradient_boosting: z
+        .object({
+          learningRate: z.number().positive(),
+          numEstimators: z.number().int().positive(),
+          maxDepth: z.number().int().positive(),
+          subsample: z.number().positive().max(1),
+          validationFraction: z.number().min(0).lt(1),
+          patience: z.number().int().positive(),
+        })
+        .default(DEFAULT_HYPERPARAMETERS.gradient_boosting),
+      knn: z
+        .object({
+          k: z.number().int().positive(),
+          metric: distanceMetricSchema,
+          weighting: z.enum(['uniform', 'distance']),
+        })
+        .default(DEFAULT_HYPERPARAMETERS.knn),
+      gaussian_nb: z
+        .object({ varSmoothing: z.number().min(0) })
+        .default(DEFAULT_HYPERPARAMETERS.gaussian_nb),
+      categorical_nb: z
+        .object({ alpha: z.number().positive(), bins: z.number().int().min(2) })
+        .default(DEFAULT_HYPERPARAMETERS.categorical_nb),
+      linear_svm: z
+        .object({
+          learningRate: z.number().positive(),
+          epochs: z.number().int().positive(),
+          regularizationStrength: z.number().min(0),
+        })
+        .default(DEFAULT_HYPERPARAMETERS.linear_svm),
+      mlp: z
+        .object({
+          hiddenLayers: z.number().int().positive(),
+          hiddenUnits: z.number().int().positive(),
+          activation: mlpActivationSchema,
+          epochs: z.number().int().positive(),
+          batchSize: z.number().int().positive(),
+          learningRate: z.number().positive(),
+        })
+        .default(DEFAULT_HYPERPARAMETERS.mlp),
+      linear: z.object({}).strict(),
+      ridge: z.object({ alpha: z.number().min(0) }),
+    })
+    .default(DEFAULT_HYPERPARAMETERS),
+  crossValidation: z
+    .object({ enabled: z.boolean(), folds: z.number().int().min(2), stratified: z.boolean() })
+    .default({ enabled: false, folds: 5, stratified: true }),
+});
+
+const scalerSchema = z.discriminatedUnion('method', [
+  z.object({ method: z.literal('standard'), means: numberArray, stds: numberArray }),
+  z.object({ method: z.literal('minmax'), mins: numberArray, maxs: numberArray }),
+]);
+
+const preprocessingSchema = z.object({
+  featureColumns: z.array(z.string()),
+  numericColumns: z.array(z.string()),
+  // Missing from version 1 bundles; the playground then starts numeric inputs blank
+  numericStats: z.array(z.object({ min: z.number(), max: z.number(), mean: z.number() })).default([]),
+  imputer: z.object({
+    strategy: configSchema.shape.imputation.shape.strategy,
+    fillValues: numberArray,
+    indicatorColumns: z.array(z.number().int()),
+  }),
+  categorical: z.record(
+    z.object({
+      fillValue: z.string(),
+      encoder: z.object({
+        method: z.enum(['onehot', 'ordinal', 'target', 'frequency']),
+        categories: z.array(z.string()),
+        table: z.array(numberArray),
+        unknown: numberArray,
+        outputNames: z.array(z.string()),
+      }),
+    })
+  ),
+  scaler: scalerSchema.nullable(),
+  featureNames: z.array(z.string()),
+});
+
+const treeNodeSchema: z.ZodType<TreeNode> = z.lazy(() =>
+  z.object({
+    feature: z.number().int().optional(),
+    threshold: z.number().optional(),
+    left: treeNodeSchema.optional(),
+    right: treeNodeSchema.optional(),
+    prediction: z.number().optional(),
+    samples: z.number().int().nonnegative().optional(),
+    impurity: z.number().optional(),
+    value: numberArray.optional(),
+  })
+);
+
+const boostingHistorySchema = z.object({
+  rounds: z.array(z.object({ train: z.number(), validation: z.number().nullable() })),
+  bestRound: z.number().int(),
+});
+
+const modelBase = {
+  taskType: configSchema.shape.taskType,
+  targetColumn: z.string(),
+  featureColumns: z.array(z.string()).min(1),
+  classLabels: z.array(z.string()).nullable(),
+  preprocessing: preprocessingSchema,
+};
+
+const modelSchema = z.discriminatedUnion('modelType', [
+  z.object({ ...modelBase, modelType: z.literal('logistic'), weights: z.array(numberArray), biases: numberArray }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('decision_tree'),
+    tree: treeNodeSchema,
+    featureImportances: numberArray.optional(),
+  }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('random_forest'),
+    trees: z.array(treeNodeSchema).min(1),
+    outOfBagScore: z.number().nullable(),
+    featureImportances: numberArray.optional(),
+  }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('gradient_boosting'),
+    initialScores: numberArray,
+    learningRate: z.number(),
+    trees: z.array(z.array(treeNodeSchema)),
+    history: boostingHistorySchema,
+  }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('knn'),
+    k: z.number().int().positive(),
+    metric: distanceMetricSchema,
+    weighting: z.enum(['uniform', 'distance']),
+    X: z.array(numberArray).min(1),
+    y: numberArray,
+  }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('gaussian_nb'),
+    logPriors: numberArray,
+    means: z.array(numberArray),
+    variances: z.array(numberArray),
+  }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('categorical_nb'),
+    logPriors: numberArray,
+    edges: z.array(numberArray),
+    logLikelihoods: z.array(z.array(numberArray)),
+  }),
+  z.object({ ...modelBase, modelType: z.literal('linear_svm'), weights: z.array(numberArray), biases: numberArray }),
+  z.object({
+    ...modelBase,
+    modelType: z.literal('mlp'),
+    activation: mlpActivationSchema,
+    layers: z.array(z.object({ weights: z.array(numberArray), biases: numberArray })).min(1),
+    targetMean: z.number(),
+    targetStd: z.number(),
+  }),
+  z.object({ ...modelBase, modelType: z.literal('linear'), weights: numberArray, bias: z.number() }),
+  z.object({ ...modelBase, modelType: z.literal('ridge'), weights: numberArray, bias: z.number() }),
+]);
+
+const metricScoresSchema = z.record(z.number());
+
+const crossValidationSchema = z.object({
+  stratified: z.boolean(),
+  folds: z.array(
+    z.object({ trainSize: z.number().int(), testSize: z.number().int(), metrics: metricScoresSchema })
+  ),
+  summary: z.record(z.object({ mean: z.number(), std: z.number() })),
+  confusionMatrix: z.array(numberArray).nullable(),
+});
+
+const tuningSchema = z.object({
+  strategy: z.enum(['grid', 'random']),
+  metric: z.string(),
+  higherIsBetter: z.boolean(),
+  folds: z.number().int(),
+  trials: z.array(
+    z.object({
+      hyperparameters: z.record(z.union([z.number(), z.string()])),
+      score: z.object({ mean: z.number(), std: z.number() }),
+      time: z.number(),
+    })
+  ),
+  bestTrial: z.number().int(),
+});
+
+const featureImportanceSchema = z.object({
+  featureColumns: z.array(z.string()),
+  permutation: z.object({ metric: z.string(), repeats: z.number().int(), mean: numberArray, std: numberArray }),
+  impurity: numberArray.nullable(),
+  coefficients: z
+    .object({ featureNames: z.array(z.string()), classes: z.array(z.string()), standardized: z.array(numberArray) })
+    .nullable(),
+});
+
+const averagedScoresSchema = z.object({ precision: z.number(), recall: z.number(), f1: z.number() });
+
+const resultsBase = {
+  predictions: numberArray,
+  actuals: numberArray,
+  trainingTime: z.number(),
+  trainSize: z.number().int(),
+  testSize: z.number().int(),
+  crossValidation: crossValidationSchema.nullable().default(null),
+  tuning: tuningSchema.nullable().default(null),
+  featureImportance: featureImportanceSchema.nullable().default(null),
+  outOfBagScore: z.number().nullable().default(null),
+};
+
+const resultsSchema = z.discriminatedUnion('taskType', [
+  z.object({
+    ...resultsBase,
+    taskType: z.literal('classification'),
+    // Test labels and probabilities arrived in version 4. The metrics added in
+    // version 3 are derived from the confusion matrix in upgradeResults.
+    actuals: numberArray.default([]),
+    accuracy: z.number(),
+    trainAccuracy: z.number(),
+    balancedAccuracy: z.number().optional(),
+    mcc: z.number().optional(),
+    report: z
+      .object({
+        perClass: z.array(averagedScoresSchema.extend({ support: z.number().int() })),
+        macro: averagedScoresSchema,
+        weighted: averagedScoresSchema,
+      })
+      .optional(),
+    probabilities: z.array(numberArray).nullable().default(null),
+    logLoss: z.number().nullable().default(null),
+    rocAuc: z.number().nullable().default(null),
+    boostingHistory: boostingHistorySchema.nullable().default(null),
+    confusionMatrix: z.array(numberArray),
+    classLabels: z.array(z.string()),
+  }),
+  z.object({
+    ...resultsBase,
+    taskType: z.literal('regression'),
+    mae: z.number(),
+    rmse: z.number(),
+    r2: z.number(),
+    trainR2: z.number(),
+  }),
+]);
+
+const bundleSchema = z.object({
+  format: z.literal(MODEL_BUNDLE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  config: configSchema,
+  schema: z.array(z.object({ name: z.string(), type: z.enum(['numeric', 'categorical', 'unknown']) })),
+  model: modelSchema,
+  results: resultsSchema,
+});
+
+export function createModelBundle(
+  config: PipelineConfig,
+  model: TrainedModel,
+  results: TrainingResults,
+  dataset: Dataset | null
+): ModelBundle {
+  const columns = [...model.featureColumns, model.targetColumn];
+  return {
+    format: MODEL_BUNDLE_FORMAT,
+    version: MODEL_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+    schema: columns.map(name => {
+      const column = dataset?.columns.find(c => c.name === name);
+      const type = column?.type ?? (model.preprocessing.numericColumns.includes(name) ? 'numeric' : 'categorical');
+      return { name, type };
+    }),
+    model,
+    results,
+  };
+}
+
+// Fill in the classification metrics older bundles lack from their
+// confusion matrix. They were added together, so one missing means all are.
+function upgradeResults(results: TrainingResults): TrainingResults {
+  if (results.taskType === 'regression' || results.report !== undefined) return results;
+  const matrix = results.confusionMatrix;
+  return {
+    ...results,
+    balancedAccuracy: balancedAccuracy(matrix),
+    mcc: matthewsCorrelation(matrix),
+    report: classificationReport(matrix),
+  };
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+// Problems that make the model unusable even though every field has the right type
+function consistencyErrors(bundle: ModelBundle): string[] {
+  const { config, model, schema } = bundle;
+  const prep = model.preprocessing;
+  const errors: string[] = [];
+
+  if (!sameList(model.featureColumns, config.featureColumns) || !sameList(model.featureColumns, prep.featureColumns)) {
+    errors.push('feature columns differ between the pipeline config and the model');
+  }
+  if (model.modelType !== config.modelType || model.taskType !== config.taskType) {
+    errors.push('model type differs from the pipeline config');
+  }
+  if ((model.taskType === 'classification') !== (model.classLabels !== null)) {
+    errors.push('class labels do not match the task type');
+  }
+
+  model.featureColumns.forEach(name => {
+    const column = schema.find(c => c.name === name);
+    const isNumeric = prep.numericColumns.includes(name);
+    if (!column) {
+      errors.push(`feature "${name}" is missing from the dataset schema`);
+    } else if ((column.type === 'numeric') !== isNumeric) {
+      errors.push(`feature "${name}" is ${column.type} in the schema but encoded as ${isNumeric ? 'numeric' : 'categorical'}`);
+    } else if (!isNumeric && !prep.categorical[name]) {
+      errors.push(`feature "${name}" has no categorical encoder`);
+    }
+  });
+
+  const width = prep.featureNames.length;
+  const weightRows = model.modelType === 'logistic' || model.modelType === 'linear_svm'
+    ? model.weights
+    : model.modelType === 'mlp'
+      ? model.layers[0].weights
+    : model.modelType === 'linear' || model.modelType === 'ridge' ? [model.weights] : [];
+  if (weightRows.some(row => row.length !== width)) {
+    errors.push(`model weights do not match the ${width} encoded features`);
+  }
+
+  // Parameters kept per encoded feature, one row per training sample or class
+  const featureRows = model.modelType === 'knn'
+    ? model.X
+    : model.modelType === 'gaussian_nb'
+      ? [...model.means, ...model.variances]
+      : model.modelType === 'categorical_nb'
+        ? [model.edges, ...model.logLikelihoods]
+        : model.modelType === 'decision_tree' || model.modelType === 'random_forest'
+          ? (model.featureImportances ? [model.featureImportances] : [])
+          : [];
+  if (featureRows.some(row => row.length !== width)) {
+    errors.push(`model parameters do not match the ${width} encoded features`);
+  }
+  if (model.modelType === 'knn' && model.y.length !== model.X.length) {
+    errors.push('k-NN training targets do not match the stored training rows');
+  }
+
+  return errors;
+}
+
+// Validate a parsed JSON bundle. When a dataset is loaded, the model's
+// feature columns must exist in it with the same types.
+export function parseModelBundle(json: unknown, dataset: Dataset | null): ModelBundle {
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(json);
+  if (!header.success || header.data.format !== MODEL_BUNDLE_FORMAT) {
+    throw new Error('This file is not a model bundle exported by the pipeline builder');
+  }
+  if (!Number.isInteger(header.data.version) || header.data.version < 1 || header.data.version > MODEL_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported model bundle version ${header.data.version} (this build reads versions 1 to ${MODEL_BUNDLE_VERSION})`
+    );
+  }
+
+  const parsed = bundleSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.join('.');
+    // Some fields added since cannot be filled in by a default
+    if (header.data.version < MODEL_BUNDLE_VERSION) {
+      throw new Error(
+        `This bundle was exported by an older version (${header.data.version}) and lacks "${path}". Retrain the model and export it again.`
+      );
+    }
+    throw new Error(`Invalid model bundle at "${path}": ${issue.message}`);
+  }
+
+  const bundle = parsed.data as ModelBundle;
+  bundle.results = upgradeResults(bundle.results);
+  const errors = consistencyErrors(bundle);
+
+  if (dataset) {
+    bundle.schema
+      .filter(column => column.name !== bundle.model.targetColumn)
+      .forEach(column => {
+        const match = dataset.columns.find(c => c.name === column.name);
+        if (!match) {
+          errors.push(`column "${column.name}" is not in ${dataset.fileName}`);
+        } else if (match.type !== column.type) {
+          errors.push(`column "${column.name}" is ${match.type} in ${dataset.fileName} but ${column.type} in the model`);
+        }
+      });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Feature schema mismatch: ${errors.join('; ')}`);
+  }
+  return bundle;
+}
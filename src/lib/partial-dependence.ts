@@ -0,0 +1,83 @@
+// Partial dependence on numeric feature columns. Grids and curves are computed
+// on the scaled features the model sees; grid values are mapped back to the
+// raw column scale for display.
+import { DependenceCurve, DependenceSurface, FittedPreprocessing, TrainedModel } from '@/types/pipeline';
+import { featureColumnGroups } from '@/lib/pipeline';
+import { modelOutput } from '@/lib/explanations';
+import { unscaleThreshold } from '@/lib/tree-rules';
+import { Random, featureGrid, partialDependence, partialDependence2D, shuffleInPlace } from '@/lib/ml-utils';
+
+// Grid points per feature for curves and for each axis of a surface
+const CURVE_POINTS = 20;
+const SURFACE_POINTS = 12;
+
+// Training rows averaged over. Surfaces score points² copies of every row, so
+// they use fewer.
+const MAX_CURVE_ROWS = 300;
+const MAX_SURFACE_ROWS = 100;
+
+// ICE curves kept for plotting
+export const MAX_ICE_CURVES = 50;
+
+// Model feature holding a numeric column's (imputed, scaled) value
+function numericFeature(prep: FittedPreprocessing, column: string): number {
+  return featureColumnGroups(prep)[prep.featureColumns.indexOf(column)][0];
+}
+
+function sampleRows(X: number[][], max: number, random: Random): number[][] {
+  return X.length <= max ? X : shuffleInPlace([...X], random).slice(0, max);
+}
+
+// X holds preprocessed training rows; classIndex picks the class whose
+// probability is plotted, null for regression
+export function dependenceCurve(
+  model: TrainedModel,
+  X: number[][],
+  column: string,
+  classIndex: number | null,
+  random: Random
+): DependenceCurve {
+  const prep = model.preprocessing;
+  const feature = numericFeature(prep, column);
+  const grid = featureGrid(X, feature, CURVE_POINTS);
+  const { average, ice } = partialDependence(
+    modelOutput(model, classIndex),
+    sampleRows(X, MAX_CURVE_ROWS, random),
+    feature,
+    grid
+  );
+  return {
+    column,
+    values: grid.map(value => unscaleThreshold(prep, feature, value)),
+    average,
+    ice: ice.slice(0, MAX_ICE_CURVES),
+  };
+}
+
+export function dependenceSurface(
+  model: TrainedModel,
+  X: number[][],
+  columns: [string, string],
+  classIndex: number | null,
+  random: Random
+): DependenceSurface {
+  const prep = model.preprocessing;
+  const features: [number, number] = [numericFeature(prep, columns[0]), numericFeature(prep, columns[1])];
+  const grids: [number[], number[]] = [
+    featureGrid(X, features[0], SURFACE_POINTS),
+    featureGrid(X, features[1], SURFACE_POINTS),
+  ];
+  return {
+    columns,
+    values: [
+      grids[0].map(value => unscaleThreshold(prep, features[0], value)),
+      grids[1].map(value => unscaleThreshold(prep, features[1], value)),
+    ],
+    surface: partialDependence2D(
+      modelOutput(model, classIndex),
+      sampleRows(X, MAX_SURFACE_ROWS, random),
+      features,
+      grids
+    ),
+  };
+}
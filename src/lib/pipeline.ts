@@ -0,0 +1,795 @@
+// Training pipeline: turns an uploaded dataset and a pipeline configuration
+// into feature matrices, a trained model and its evaluation results.
+import {
+  Dataset,
+  DatasetColumn,
+  PipelineConfig,
+  TrainingResults,
+  ClassificationResults,
+  RegressionResults,
+  FittedPreprocessing,
+  TrainedModel,
+  TrainingProgress,
+  CrossValidationResults,
+  FoldResult,
+  MetricScores,
+  ModelType,
+  PreprocessingMethod,
+  ComparisonCandidate,
+  ComparisonEntry,
+  TuningConfig,
+  TuningTrial,
+  FeatureImportanceResults,
+} from '@/types/pipeline';
+import {
+  ProcessedData,
+  fitScaler,
+  transformScaler,
+  trainTestSplitIndices,
+  kFoldIndices,
+  meanAndStd,
+  createRandom,
+  permutationImportance,
+  standardizedCoefficients,
+  normalizeImportances,
+  encodeLabels,
+  categoryKey,
+  isMissing,
+  parseNumeric,
+  fitImputer,
+  transformImputer,
+  fitCategoricalImputer,
+  fitCategoricalEncoder,
+  transformCategorical,
+  logisticRegressionOvR,
+  predictLogisticOvR,
+  predictProbaLogistic,
+  decisionTreeClassifier,
+  decisionTreeRegressor,
+  predictDecisionTree,
+  randomForestClassifier,
+  randomForestRegressor,
+  predictRandomForestClassifier,
+  predictRandomForestRegressor,
+  predictProbaRandomForest,
+  gradientBoostingClassifier,
+  predictGradientBoosting,
+  predictProbaGradientBoosting,
+  knnFit,
+  predictKnnClassifier,
+  predictKnnRegressor,
+  predictProbaKnn,
+  gaussianNaiveBayes,
+  predictGaussianNB,
+  predictProbaGaussianNB,
+  categoricalNaiveBayes,
+  predictCategoricalNB,
+  predictProbaCategoricalNB,
+  linearSvm,
+  predictLinearSvm,
+  mlpFit,
+  predictMlpClassifier,
+  predictMlpRegressor,
+  predictProbaMlp,
+  linearRegression,
+  ridgeRegression,
+  predictLinear,
+  calculateAccuracy,
+  confusionMatrix,
+  classificationReport,
+  balancedAccuracy,
+  matthewsCorrelation,
+  logLoss,
+  rocAucScore,
+  meanAbsoluteError,
+  rootMeanSquaredError,
+  r2Score,
+} from '@/lib/ml-utils';
+import { validateHyperparameters } from '@/lib/hyperparameters';
+import { TUNING_METRICS, searchTrials, validateTuning } from '@/lib/tuning';
+
+// Targets with more distinct values than this are almost certainly continuous
+const MAX_CLASSES = 20;
+
+export const DEFAULT_SEED = 42;
+
+export const MODEL_NAMES: Record<ModelType, string> = {
+  logistic: 'Logistic Regression',
+  decision_tree: 'Decision Tree',
+  random_forest: 'Random Forest',
+  gradient_boosting: 'Gradient Boosting',
+  knn: 'k-Nearest Neighbours',
+  gaussian_nb: 'Gaussian Naive Bayes',
+  categorical_nb: 'Categorical Naive Bayes',
+  linear_svm: 'Linear SVM',
+  mlp: 'Neural Network (MLP)',
+  linear: 'Linear Regression',
+  ridge: 'Ridge Regression',
+};
+
+export const PREPROCESSING_NAMES: Record<PreprocessingMethod, string> = {
+  none: 'No scaling',
+  standard: 'Standard scaler',
+  minmax: 'Min-max scaler',
+};
+
+// Random 32-bit seed for when the user asks for a different shuffle
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+export function isCategorical(column: DatasetColumn | undefined): boolean {
+  return column !== undefined && column.type !== 'numeric';
+}
+
+// Rows without a target value cannot be used for training; the "drop"
+// strategy also removes rows with a missing feature value.
+function selectRows(dataset: Dataset, config: PipelineConfig): Record<string, unknown>[] {
+  const rows = dataset.rawData.filter(row => {
+    const target = row[config.targetColumn!];
+    if (isMissing(target)) return false;
+    if (config.taskType === 'regression' && isNaN(parseNumeric(target))) return false;
+    if (config.imputation.strategy === 'drop') {
+      return config.featureColumns.every(name => {
+        const column = dataset.columns.find(c => c.name === name);
+        return isCategorical(column) ? !isMissing(row[name]) : !isNaN(parseNumeric(row[name]));
+      });
+    }
+    return true;
+  });
+
+  if (rows.length === 0) {
+    throw new Error('No rows left after removing missing values');
+  }
+  return rows;
+}
+
+function encodeTarget(
+  rows: Record<string, unknown>[],
+  config: PipelineConfig
+): { y: number[]; classes: string[] | null } {
+  const rawTarget = rows.map(row => row[config.targetColumn!]);
+
+  if (config.taskType === 'regression') {
+    return { y: rawTarget.map(parseNumeric), classes: null };
+  }
+
+  const { labels, classes } = encodeLabels(rawTarget);
+  if (classes.length < 2) {
+    throw new Error(`Target column "${config.targetColumn}" has only one distinct value`);
+  }
+  if (classes.length > MAX_CLASSES) {
+    throw new Error(
+      `Target column "${config.targetColumn}" has ${classes.length} distinct values; ` +
+      `classification supports at most ${MAX_CLASSES} classes`
+    );
+  }
+  return { y: labels, classes };
+}
+
+// Encode rows with fitted imputation and categorical encoders, before
+// scaling. Numeric columns are parsed and imputed, categorical columns are
+// imputed and expanded by their encoder; missing indicators come last.
+function encodeRows(
+  rows: Record<string, unknown>[],
+  prep: Pick<FittedPreprocessing, 'featureColumns' | 'numericColumns' | 'imputer' | 'categorical'>
+): number[][] {
+  const rawNumeric = rows.map(row => prep.numericColumns.map(name => parseNumeric(row[name])));
+  const numericX = transformImputer(rawNumeric, prep.imputer);
+
+  const blocks = prep.featureColumns.map(name => {
+    const numericIndex = prep.numericColumns.indexOf(name);
+    if (numericIndex !== -1) {
+      return numericX.map(row => [row[numericIndex]]);
+    }
+    const { fillValue, encoder } = prep.categorical[name];
+    const values = rows.map(row => (isMissing(row[name]) ? fillValue : categoryKey(row[name])));
+    return transformCategorical(values, encoder);
+  });
+  const indicators = numericX.map(row => row.slice(prep.numericColumns.length));
+
+  return rows.map((_, i) => [...blocks.flatMap(block => block[i]), ...indicators[i]]);
+}
+
+// Fit imputation, categorical encoders and the scaler on training rows
+export function fitPreprocessing(
+  rows: Record<string, unknown>[],
+  columns: DatasetColumn[],
+  config: PipelineConfig,
+  y: number[],
+  numClasses?: number
+): FittedPreprocessing {
+  const { strategy, fillValue } = config.imputation;
+  const numericColumns = config.featureColumns.filter(
+    name => !isCategorical(columns.find(c => c.name === name))
+  );
+
+  const rawNumeric = rows.map(row => numericColumns.map(name => parseNumeric(row[name])));
+  const numericStats = numericColumns.map((_, j) => {
+    const present = rawNumeric.map(row => row[j]).filter(v => !isNaN(v));
+    return present.length === 0
+      ? { min: 0, max: 0, mean: 0 }
+      : {
+          min: present.reduce((a, b) => Math.min(a, b), Infinity),
+          max: present.reduce((a, b) => Math.max(a, b), -Infinity),
+          mean: present.reduce((a, b) => a + b, 0) / present.length,
+        };
+  });
+  const constant = Number(fillValue);
+  const imputer = fitImputer(rawNumeric, strategy, isNaN(constant) ? 0 : constant);
+
+  const categorical: FittedPreprocessing['categorical'] = {};
+  const featureNames: string[] = [];
+
+  config.featureColumns.forEach(name => {
+    if (numericColumns.includes(name)) {
+      featureNames.push(name);
+      return;
+    }
+    const rawValues = rows.map(row => row[name]);
+    const fill = fitCategoricalImputer(rawValues.map(categoryKey), strategy, fillValue.trim() || undefined);
+    const values = rawValues.map(v => (isMissing(v) ? fill : categoryKey(v)));
+    const encoder = fitCategoricalEncoder(
+      values,
+      config.categoricalEncodings[name] ?? 'onehot',
+      y,
+      numClasses
+    );
+    categorical[name] = { fillValue: fill, encoder };
+    encoder.outputNames.forEach(suffix => featureNames.push(suffix ? `${name}=${suffix}` : name));
+  });
+  imputer.indicatorColumns.forEach(j => featureNames.push(`${numericColumns[j]}_missing`));
+
+  const prep = { featureColumns: config.featureColumns, numericColumns, numericStats, imputer, categorical };
+  const scaler = fitScaler(encodeRows(rows, prep), config.preprocessing);
+
+  return { ...prep, scaler, featureNames };
+}
+
+// Turn raw rows into model-ready features with fitted preprocessing
+export function transformRows(rows: Record<string, unknown>[], prep: FittedPreprocessing): number[][] {
+  return transformScaler(encodeRows(rows, prep), prep.scaler);
+}
+
+// Model feature indices belonging to each raw feature column: a numeric
+// column and its missing indicator, or every output of a categorical encoder
+export function featureColumnGroups(prep: FittedPreprocessing): number[][] {
+  // Raw column of each model feature, in encodeRows order
+  const owners = prep.featureColumns.flatMap((name, c) =>
+    prep.numericColumns.includes(name) ? [c] : prep.categorical[name].encoder.outputNames.map(() => c)
+  );
+  prep.imputer.indicatorColumns.forEach(j => owners.push(prep.featureColumns.indexOf(prep.numericColumns[j])));
+  return prep.featureColumns.map((_, c) => owners.flatMap((owner, j) => (owner === c ? [j] : [])));
+}
+
+export type ProgressCallback = (progress: TrainingProgress) => void;
+
+// Fit the configured model on preprocessed training features
+function fitModel(
+  X_train: number[][],
+  y_train: number[],
+  config: PipelineConfig,
+  classes: string[] | null,
+  preprocessing: FittedPreprocessing,
+  onProgress?: ProgressCallback
+): TrainedModel {
+  const report = (fraction: number, detail: string) => onProgress?.({ phase: 'training', fraction, detail });
+  const reportTree = (nodes: number, fraction: number) => report(fraction, `${nodes} nodes built`);
+  const { hyperparameters } = config;
+  // A fresh generator per fit keeps the model independent of earlier draws
+  const random = createRandom(config.seed);
+
+  const base = {
+    taskType: config.taskType,
+    targetColumn: config.targetColumn!,
+    featureColumns: [...config.featureColumns],
+    classLabels: classes,
+    preprocessing,
+  };
+
+  switch (config.modelType) {
+    case 'logistic':
+      return {
+        ...base,
+        modelType: 'logistic',
+        ...logisticRegressionOvR(X_train, y_train, classes!.length, hyperparameters.logistic, (fraction, iteration, loss) =>
+          report(fraction, `Iteration ${iteration} · loss ${loss.toFixed(4)}`)
+        ),
+      };
+    case 'decision_tree': {
+      const importances = new Array(preprocessing.featureNames.length).fill(0);
+      const options = { ...hyperparameters.decision_tree, random, importances };
+      const tree = classes
+        ? decisionTreeClassifier(X_train, y_train, classes.length, options, reportTree)
+        : decisionTreeRegressor(X_train, y_train, options, reportTree);
+      return { ...base, modelType: 'decision_tree', tree, featureImportances: normalizeImportances(importances) };
+    }
+    case 'random_forest': {
+      const options = { ...hyperparameters.random_forest, random };
+      const reportForest = (trees: number, total: number) => report(trees / total, `Tree ${trees}/${total}`);
+      return {
+        ...base,
+        modelType: 'random_forest',
+        ...(classes
+          ? randomForestClassifier(X_train, y_train, classes.length, options, reportForest)
+          : randomForestRegressor(X_train, y_train, options, reportForest)),
+      };
+    }
+    case 'gradient_boosting':
+      return {
+        ...base,
+        modelType: 'gradient_boosting',
+        ...gradientBoostingClassifier(
+          X_train,
+          y_train,
+          classes!.length,
+          hyperparameters.gradient_boosting,
+          random,
+          (round, total, trainLoss, validationLoss) =>
+            report(
+              round / total,
+              `Round ${round}/${total} · loss ${trainLoss.toFixed(4)}` +
+                (validationLoss === null ? '' : ` · validation ${validationLoss.toFixed(4)}`)
+            )
+        ),
+      };
+    case 'knn':
+      return { ...base, modelType: 'knn', ...hyperparameters.knn, ...knnFit(X_train, y_train) };
+    case 'gaussian_nb':
+      return {
+        ...base,
+        modelType: 'gaussian_nb',
+        ...gaussianNaiveBayes(X_train, y_train, classes!.length, hyperparameters.gaussian_nb),
+      };
+    case 'categorical_nb':
+      return {
+        ...base,
+        modelType: 'categorical_nb',
+        ...categoricalNaiveBayes(X_train, y_train, classes!.length, hyperparameters.categorical_nb),
+      };
+    case 'linear_svm':
+      return {
+        ...base,
+        modelType: 'linear_svm',
+        ...linearSvm(X_train, y_train, classes!.length, hyperparameters.linear_svm, random, (fraction, epoch, loss) =>
+          report(fraction, `Epoch ${epoch} · loss ${loss.toFixed(4)}`)
+        ),
+      };
+    case 'mlp':
+      return {
+        ...base,
+        modelType: 'mlp',
+        ...mlpFit(X_train, y_train, classes ? classes.length : null, hyperparameters.mlp, random, (epoch, total, loss) =>
+          report(epoch / total, `Epoch ${epoch}/${total} · loss ${loss.toFixed(4)}`)
+        ),
+      };
+    case 'ridge':
+      return { ...base, modelType: 'ridge', ...ridgeRegression(X_train, y_train, hyperparameters.ridge.alpha) };
+    default:
+      return { ...base, modelType: 'linear', ...linearRegression(X_train, y_train) };
+  }
+}
+
+// Predict encoded class labels (classification) or values (regression)
+// from preprocessed features
+export function predictFeatures(model: TrainedModel, X: number[][]): number[] {
+  switch (model.modelType) {
+    case 'logistic':
+      return predictLogisticOvR(X, model);
+    case 'decision_tree':
+      return predictDecisionTree(X, model.tree);
+    case 'random_forest':
+      return model.classLabels
+        ? predictRandomForestClassifier(X, model.trees, model.classLabels.length)
+        : predictRandomForestRegressor(X, model.trees);
+    case 'gradient_boosting':
+      return predictGradientBoosting(X, model);
+    case 'knn':
+      return model.classLabels
+        ? predictKnnClassifier(X, model, model, model.classLabels.length)
+        : predictKnnRegressor(X, model, model);
+    case 'gaussian_nb':
+      return predictGaussianNB(X, model);
+    case 'categorical_nb':
+      return predictCategoricalNB(X, model);
+    case 'linear_svm':
+      return predictLinearSvm(X, model);
+    case 'mlp':
+      return model.classLabels ? predictMlpClassifier(X, model) : predictMlpRegressor(X, model);
+    default:
+      return predictLinear(X, model.weights, model.bias);
+  }
+}
+
+// Class probabilities, one row per sample, for models that produce them
+export function predictProbaFeatures(model: TrainedModel, X: number[][]): number[][] | null {
+  if (model.modelType === 'logistic') {
+    return predictProbaLogistic(X, model);
+  }
+  if (model.modelType === 'gradient_boosting') {
+    return predictProbaGradientBoosting(X, model);
+  }
+  if (model.modelType === 'random_forest' && model.classLabels) {
+    return predictProbaRandomForest(X, model.trees, model.classLabels.length);
+  }
+  if (model.modelType === 'knn' && model.classLabels) {
+    return predictProbaKnn(X, model, model, model.classLabels.length);
+  }
+  if (model.modelType === 'gaussian_nb') {
+    return predictProbaGaussianNB(X, model);
+  }
+  if (model.modelType === 'categorical_nb') {
+    return predictProbaCategoricalNB(X, model);
+  }
+  if (model.modelType === 'mlp' && model.classLabels) {
+    return predictProbaMlp(X, model);
+  }
+  return null;
+}
+
+// Score raw rows with a trained model
+export function predictRows(model: TrainedModel, rows: Record<string, unknown>[]): number[] {
+  return predictFeatures(model, transformRows(rows, model.preprocessing));
+}
+
+function evaluateClassifier(
+  { X_train, X_test, y_train, y_test }: ProcessedData,
+  model: TrainedModel
+): ClassificationResults {
+  const predictions = predictFeatures(model, X_test);
+  const trainPredictions = predictFeatures(model, X_train);
+  const classes = model.classLabels!;
+  const matrix = confusionMatrix(y_test, predictions, classes.length);
+  const probabilities = predictProbaFeatures(model, X_test);
+
+  return {
+    taskType: 'classification',
+    accuracy: calculateAccuracy(y_test, predictions),
+    trainAccuracy: calculateAccuracy(y_train, trainPredictions),
+    balancedAccuracy: balancedAccuracy(matrix),
+    mcc: matthewsCorrelation(matrix),
+    report: classificationReport(matrix),
+    probabilities,
+    logLoss: probabilities ? logLoss(y_test, probabilities) : null,
+    rocAuc: probabilities ? rocAucScore(y_test, probabilities) : null,
+    boostingHistory: model.modelType === 'gradient_boosting' ? model.history : null,
+    predictions,
+    actuals: y_test,
+    confusionMatrix: matrix,
+    classLabels: classes,
+    trainingTime: 0,
+    trainSize: X_train.length,
+    testSize: X_test.length,
+    crossValidation: null,
+    tuning: null,
+    featureImportance: null,
+    outOfBagScore: model.modelType === 'random_forest' ? model.outOfBagScore : null,
+  };
+}
+
+function evaluateRegressor(
+  { X_train, X_test, y_train, y_test }: ProcessedData,
+  model: TrainedModel
+): RegressionResults {
+  const predictions = predictFeatures(model, X_test);
+  const trainPredictions = predictFeatures(model, X_train);
+
+  return {
+    taskType: 'regression',
+    mae: meanAbsoluteError(y_test, predictions),
+    rmse: rootMeanSquaredError(y_test, predictions),
+    r2: r2Score(y_test, predictions),
+    trainR2: r2Score(y_train, trainPredictions),
+    predictions,
+    actuals: y_test,
+    trainingTime: 0,
+    trainSize: X_train.length,
+    testSize: X_test.length,
+    crossValidation: null,
+    tuning: null,
+    featureImportance: null,
+    outOfBagScore: model.modelType === 'random_forest' ? model.outOfBagScore : null,
+  };
+}
+
+const PERMUTATION_REPEATS = 5;
+
+// Importance per raw feature column: permutation importance on the test set
+// for every model, plus impurity importance for trees and forests and
+// standardized coefficients for logistic regression
+function featureImportance(
+  model: TrainedModel,
+  { X_train, X_test, y_test }: ProcessedData,
+  seed: number
+): FeatureImportanceResults {
+  const prep = model.preprocessing;
+  const groups = featureColumnGroups(prep);
+  const classification = model.classLabels !== null;
+
+  const permutation = permutationImportance(
+    X_test,
+    y_test,
+    groups,
+    X => predictFeatures(model, X),
+    classification ? calculateAccuracy : r2Score,
+    PERMUTATION_REPEATS,
+    createRandom(seed)
+  );
+  const impurity =
+    (model.modelType === 'decision_tree' || model.modelType === 'random_forest') && model.featureImportances
+      ? groups.map(columns => columns.reduce((sum, j) => sum + model.featureImportances![j], 0))
+      : null;
+  const coefficients = model.modelType === 'logistic'
+    ? {
+        featureNames: [...prep.featureNames],
+        classes: model.weights.length === 1 ? [model.classLabels![1]] : [...model.classLabels!],
+        standardized: standardizedCoefficients(model.weights, X_train),
+      }
+    : null;
+
+  return {
+    featureColumns: [...prep.featureColumns],
+    permutation: { metric: classification ? 'accuracy' : 'r2', repeats: PERMUTATION_REPEATS, ...permutation },
+    impurity,
+    coefficients,
+  };
+}
+
+// Per-fold scores shown in the cross-validation table
+function foldMetrics(yTrue: number[], yPred: number[], numClasses: number | null): MetricScores {
+  if (numClasses !== null) {
+    const matrix = confusionMatrix(yTrue, yPred, numClasses);
+    return {
+      accuracy: calculateAccuracy(yTrue, yPred),
+      balancedAccuracy: balancedAccuracy(matrix),
+      f1Macro: classificationReport(matrix).macro.f1,
+    };
+  }
+  return {
+    r2: r2Score(yTrue, yPred),
+    mae: meanAbsoluteError(yTrue, yPred),
+    rmse: rootMeanSquaredError(yTrue, yPred),
+  };
+}
+
+// Report a sub-task's progress as one segment of a longer run
+function progressSegment(
+  onProgress: ProgressCallback | undefined,
+  index: number,
+  total: number,
+  label: string
+): ProgressCallback | undefined {
+  if (!onProgress || total === 1) return onProgress;
+  return progress =>
+    onProgress({
+      ...progress,
+      fraction: (index + progress.fraction) / total,
+      detail: `${label} · ${progress.detail}`,
+    });
+}
+
+// K-fold cross-validation on the training rows. Preprocessing is refit on
+// every fold's training part so the held-out fold stays unseen.
+function crossValidate(
+  rows: Record<string, unknown>[],
+  y: number[],
+  columns: DatasetColumn[],
+  config: PipelineConfig,
+  classes: string[] | null,
+  onProgress?: ProgressCallback
+): CrossValidationResults {
+  const { folds: k } = config.crossValidation;
+  if (rows.length < k) {
+    throw new Error(`Cross-validation with ${k} folds needs at least ${k} training rows`);
+  }
+  const stratified = classes !== null && config.crossValidation.stratified;
+  const aggregated = classes ? classes.map(() => new Array(classes.length).fill(0)) : null;
+
+  const random = createRandom(config.seed);
+  const folds = kFoldIndices(rows.length, k, stratified ? y : undefined, random).map(
+    ({ trainIndices, testIndices }, fold): FoldResult => {
+      const trainRows = trainIndices.map(i => rows[i]);
+      const y_train = trainIndices.map(i => y[i]);
+      const y_test = testIndices.map(i => y[i]);
+
+      const preprocessing = fitPreprocessing(trainRows, columns, config, y_train, classes?.length);
+      const model = fitModel(
+        transformRows(trainRows, preprocessing),
+        y_train,
+        config,
+        classes,
+        preprocessing,
+        progressSegment(onProgress, fold, k + 1, `Fold ${fold + 1}/${k}`)
+      );
+      const predictions = predictFeatures(model, transformRows(testIndices.map(i => rows[i]), preprocessing));
+
+      if (aggregated) {
+        confusionMatrix(y_test, predictions, classes!.length).forEach((row, i) =>
+          row.forEach((count, j) => (aggregated[i][j] += count))
+        );
+      }
+      return {
+        trainSize: trainIndices.length,
+        testSize: testIndices.length,
+        metrics: foldMetrics(y_test, predictions, classes ? classes.length : null),
+      };
+    }
+  );
+
+  const summary: CrossValidationResults['summary'] = {};
+  Object.keys(folds[0].metrics).forEach(metric => {
+    summary[metric] = meanAndStd(folds.map(f => f.metrics[metric]));
+  });
+
+  return { stratified, folds, summary, confusionMatrix: aggregated };
+}
+
+// Encode the target and split the rows. Happens before fitting any
+// preprocessing so test rows stay unseen. Deterministic for a dataset and
+// config, so the rows a model was trained and tested on can be recovered.
+export function splitRows(dataset: Dataset, config: PipelineConfig) {
+  const rows = selectRows(dataset, config);
+  const { y, classes } = encodeTarget(rows, config);
+
+  const { trainIndices, testIndices } = trainTestSplitIndices(rows.length, config.splitRatio, {
+    random: createRandom(config.seed),
+    stratifyLabels: classes && config.stratify ? y : undefined,
+  });
+  return {
+    trainRows: trainIndices.map(i => rows[i]),
+    testRows: testIndices.map(i => rows[i]),
+    y_train: trainIndices.map(i => y[i]),
+    y_test: testIndices.map(i => y[i]),
+    classes,
+  };
+}
+
+export function trainPipeline(
+  dataset: Dataset,
+  config: PipelineConfig,
+  onProgress?: ProgressCallback
+): { results: TrainingResults; model: TrainedModel } {
+  const invalid = Object.values(validateHyperparameters(config.modelType, config.hyperparameters));
+  if (invalid.length > 0) {
+    throw new Error(invalid[0]);
+  }
+
+  const startTime = performance.now();
+  onProgress?.({ phase: 'preprocessing', fraction: 0, detail: 'Preparing features' });
+
+  const { trainRows, testRows, y_train, y_test, classes } = splitRows(dataset, config);
+  const preprocessing = fitPreprocessing(trainRows, dataset.columns, config, y_train, classes?.length);
+  const split: ProcessedData = {
+    X_train: transformRows(trainRows, preprocessing),
+    X_test: transformRows(testRows, preprocessing),
+    y_train,
+    y_test,
+  };
+
+  const cv = config.crossValidation;
+  const crossValidation = cv.enabled
+    ? crossValidate(trainRows, y_train, dataset.columns, config, classes, onProgress)
+    : null;
+
+  const segments = cv.enabled ? cv.folds + 1 : 1;
+  const model = fitModel(
+    split.X_train,
+    y_train,
+    config,
+    classes,
+    preprocessing,
+    progressSegment(onProgress, segments - 1, segments, 'Final model')
+  );
+  onProgress?.({ phase: 'evaluating', fraction: 1, detail: 'Scoring the test set' });
+  const results = classes ? evaluateClassifier(split, model) : evaluateRegressor(split, model);
+  onProgress?.({ phase: 'evaluating', fraction: 1, detail: 'Measuring feature importance' });
+  results.featureImportance = featureImportance(model, split, config.seed);
+  results.crossValidation = crossValidation;
+  results.trainingTime = Math.round(performance.now() - startTime);
+  return { results, model };
+}
+
+// Train every candidate with otherwise identical settings. The split depends
+// only on the rows and the seed, so all candidates share the same train and
+// test sets. A failing candidate is reported in its entry instead of
+// aborting the whole run.
+export function comparePipelines(
+  dataset: Dataset,
+  config: PipelineConfig,
+  candidates: ComparisonCandidate[],
+  onProgress?: ProgressCallback
+): ComparisonEntry[] {
+  return candidates.map((candidate, index) => {
+    const label = `${MODEL_NAMES[candidate.modelType]} · ${PREPROCESSING_NAMES[candidate.preprocessing]}`;
+    try {
+      const { results, model } = trainPipeline(
+        dataset,
+        { ...config, ...candidate },
+        progressSegment(onProgress, index, candidates.length, label)
+      );
+      return { ...candidate, results, model, error: null };
+    } catch (error) {
+      return {
+        ...candidate,
+        results: null,
+        model: null,
+        error: error instanceof Error ? error.message : 'Training failed',
+      };
+    }
+  });
+}
+
+// Hyperparameter search. Every trial is scored by k-fold cross-validation on
+// the training split alone, so the test set stays unseen until the best
+// trial is retrained as the final model.
+export function tunePipeline(
+  dataset: Dataset,
+  config: PipelineConfig,
+  tuning: TuningConfig,
+  onProgress?: ProgressCallback
+): { results: TrainingResults; model: TrainedModel } {
+  const problems = validateTuning(config.modelType, config.taskType, tuning);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+  const metric = TUNING_METRICS[config.taskType].find(m => m.key === tuning.metric)!;
+  const withValues = (values: TuningTrial['hyperparameters']): PipelineConfig => ({
+    ...config,
+    hyperparameters: {
+      ...config.hyperparameters,
+      [config.modelType]: { ...config.hyperparameters[config.modelType], ...values },
+    },
+  });
+
+  onProgress?.({ phase: 'preprocessing', fraction: 0, detail: 'Preparing features' });
+  const { trainRows, y_train, classes } = splitRows(dataset, config);
+  const candidates = searchTrials(tuning, createRandom(config.seed));
+  const segments = candidates.length + 1;
+
+  const trials = candidates.map((values, index): TuningTrial => {
+    const trialConfig = withValues(values);
+    const invalid = Object.values(validateHyperparameters(config.modelType, trialConfig.hyperparameters));
+    if (invalid.length > 0) {
+      throw new Error(invalid[0]);
+    }
+    const start = performance.now();
+    const { summary } = crossValidate(
+      trainRows,
+      y_train,
+      dataset.columns,
+      trialConfig,
+      classes,
+      progressSegment(onProgress, index, segments, `Trial ${index + 1}/${candidates.length}`)
+    );
+    return { hyperparameters: values, score: summary[metric.key], time: Math.round(performance.now() - start) };
+  });
+
+  // A trial scoring NaN (a degenerate fold, or R² on a constant target) can
+  // never be the best one
+  const bestTrial = trials.reduce((best, trial, i) => {
+    if (!Number.isFinite(trial.score.mean)) return best;
+    if (best === -1) return i;
+    const better = metric.higherIsBetter
+      ? trial.score.mean > trials[best].score.mean
+      : trial.score.mean < trials[best].score.mean;
+    return better ? i : best;
+  }, -1);
+  if (bestTrial === -1) {
+    throw new Error(`No trial produced a finite ${metric.label} score. Check the target column and the number of folds.`);
+  }
+
+  const { results, model } = trainPipeline(
+    dataset,
+    withValues(trials[bestTrial].hyperparameters),
+    progressSegment(onProgress, candidates.length, segments, 'Best configuration')
+  );
+  results.tuning = {
+    strategy: tuning.strategy,
+    metric: metric.key,
+    higherIsBetter: metric.higherIsBetter,
+    folds: config.crossValidation.folds,
+    trials,
+    bestTrial,
+  };
+  return { results, model };
+}
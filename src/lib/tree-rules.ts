@@ -0,0 +1,172 @@
+// Readable decision trees: map split thresholds on encoded, scaled features
+// back to the raw columns they came from, and flatten a tree into IF/THEN rules
+import { DecisionTreeModel, FittedPreprocessing, TreeNode } from '@/types/pipeline';
+
+// The raw column behind each model feature, in encodeRows order
+type FeatureSource =
+  | { kind: 'numeric'; column: string }
+  | { kind: 'categorical'; column: string; output: number }
+  | { kind: 'missing'; column: string };
+
+// What a path through the tree has established about one raw column.
+// Numeric ranges are lower < x ≤ upper.
+type Constraint =
+  | { kind: 'range'; column: string; lower: number | null; upper: number | null }
+  | { kind: 'categories'; column: string; allowed: string[]; all: string[] }
+  | { kind: 'missing'; column: string; missing: boolean };
+
+export interface SplitLabels {
+  left: string;
+  right: string;
+}
+
+export interface TreeRule {
+  conditions: string[];
+  leaf: TreeNode;
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+function featureSources(prep: FittedPreprocessing): FeatureSource[] {
+  const sources = prep.featureColumns.flatMap((column): FeatureSource[] =>
+    prep.numericColumns.includes(column)
+      ? [{ kind: 'numeric', column }]
+      : prep.categorical[column].encoder.outputNames.map((_, output) => ({ kind: 'categorical', column, output }))
+  );
+  prep.imputer.indicatorColumns.forEach(j => sources.push({ kind: 'missing', column: prep.numericColumns[j] }));
+  return sources;
+}
+
+function scaleValue(prep: FittedPreprocessing, feature: number, value: number): number {
+  const { scaler } = prep;
+  if (!scaler) return value;
+  if (scaler.method === 'standard') return (value - scaler.means[feature]) / scaler.stds[feature];
+  const range = scaler.maxs[feature] - scaler.mins[feature];
+  return range === 0 ? 0 : (value - scaler.mins[feature]) / range;
+}
+
+// Threshold on the feature's original scale
+export function unscaleThreshold(prep: FittedPreprocessing, feature: number, threshold: number): number {
+  const { scaler } = prep;
+  if (!scaler) return threshold;
+  if (scaler.method === 'standard') return threshold * scaler.stds[feature] + scaler.means[feature];
+  return scaler.mins[feature] + threshold * (scaler.maxs[feature] - scaler.mins[feature]);
+}
+
+function constraintKey(source: FeatureSource): string {
+  return `${source.kind}:${source.column}`;
+}
+
+// Narrow a path's constraints by one side of a split. Categories and missing
+// flags are compared on the scaled value the model saw, so rules agree with
+// predictions exactly.
+function narrow(
+  constraints: Map<string, Constraint>,
+  prep: FittedPreprocessing,
+  sources: FeatureSource[],
+  node: TreeNode,
+  side: 'left' | 'right'
+): Map<string, Constraint> {
+  const feature = node.feature!;
+  const threshold = node.threshold!;
+  const source = sources[feature];
+  const key = constraintKey(source);
+  const existing = constraints.get(key);
+  const goesLeft = (value: number) => scaleValue(prep, feature, value) <= threshold;
+  let constraint: Constraint;
+
+  if (source.kind === 'numeric') {
+    const bound = unscaleThreshold(prep, feature, threshold);
+    const { lower, upper } = existing?.kind === 'range' ? existing : { lower: null, upper: null };
+    constraint = side === 'left'
+      ? { kind: 'range', column: source.column, lower, upper: upper === null ? bound : Math.min(upper, bound) }
+      : { kind: 'range', column: source.column, lower: lower === null ? bound : Math.max(lower, bound), upper };
+  } else if (source.kind === 'categorical') {
+    const { categories, table } = prep.categorical[source.column].encoder;
+    const allowed = existing?.kind === 'categories' ? existing.allowed : categories;
+    constraint = {
+      kind: 'categories',
+      column: source.column,
+      allowed: allowed.filter(category =>
+        goesLeft(table[categories.indexOf(category)][source.output]) === (side === 'left')
+      ),
+      all: categories,
+    };
+  } else {
+    constraint = { kind: 'missing', column: source.column, missing: goesLeft(1) === (side === 'left') };
+  }
+
+  return new Map(constraints).set(key, constraint);
+}
+
+function formatSet(values: string[]): string {
+  return `{${values.join(', ')}}`;
+}
+
+function formatConstraint(constraint: Constraint): string {
+  const { column } = constraint;
+  if (constraint.kind === 'missing') {
+    return `${column} is ${constraint.missing ? '' : 'not '}missing`;
+  }
+  if (constraint.kind === 'categories') {
+    const { allowed, all } = constraint;
+    const excluded = all.filter(category => !allowed.includes(category));
+    if (allowed.length === 1) return `${column} = ${allowed[0]}`;
+    if (excluded.length === 1) return `${column} ≠ ${excluded[0]}`;
+    return excluded.length < allowed.length
+      ? `${column} not in ${formatSet(excluded)}`
+      : `${column} in ${formatSet(allowed)}`;
+  }
+  const { lower, upper } = constraint;
+  if (lower !== null && upper !== null) return `${formatNumber(lower)} < ${column} ≤ ${formatNumber(upper)}`;
+  return upper !== null ? `${column} ≤ ${formatNumber(upper)}` : `${column} > ${formatNumber(lower!)}`;
+}
+
+// Conditions for the two branches of an internal node, on raw columns
+export function describeSplit(node: TreeNode, prep: FittedPreprocessing): SplitLabels {
+  const sources = featureSources(prep);
+  const empty = new Map<string, Constraint>();
+  const label = (side: 'left' | 'right') => [...narrow(empty, prep, sources, node, side).values()].map(formatConstraint)[0];
+  return { left: label('left'), right: label('right') };
+}
+
+// One rule per leaf, left branches first. Repeated splits on a column along a
+// path merge into a single condition.
+export function treeRules(tree: TreeNode, prep: FittedPreprocessing): TreeRule[] {
+  const sources = featureSources(prep);
+  const rules: TreeRule[] = [];
+
+  function walk(node: TreeNode, constraints: Map<string, Constraint>) {
+    if (node.prediction !== undefined) {
+      rules.push({ conditions: [...constraints.values()].map(formatConstraint), leaf: node });
+      return;
+    }
+    walk(node.left!, narrow(constraints, prep, sources, node, 'left'));
+    walk(node.right!, narrow(constraints, prep, sources, node, 'right'));
+  }
+
+  walk(tree, new Map());
+  return rules;
+}
+
+// The predicted outcome at a leaf, with the training support behind it when
+// the tree recorded it
+export function describeLeaf(leaf: TreeNode, model: DecisionTreeModel): string {
+  const { classLabels, targetColumn } = model;
+  const prediction = leaf.prediction!;
+  const outcome = classLabels
+    ? `${targetColumn} = ${classLabels[prediction] ?? prediction}`
+    : `${targetColumn} = ${formatNumber(prediction)}`;
+  if (leaf.samples === undefined) return outcome;
+
+  const samples = `${leaf.samples.toLocaleString()} sample${leaf.samples === 1 ? '' : 's'}`;
+  if (!classLabels || !leaf.value || leaf.samples === 0) return `${outcome} (${samples})`;
+  const share = ((leaf.value[prediction] ?? 0) / leaf.samples) * 100;
+  return `${outcome} (${samples}, ${share.toFixed(1)}% ${classLabels[prediction] ?? prediction})`;
+}
+
+export function formatTreeRules(model: DecisionTreeModel): string {
+  return treeRules(model.tree, model.preprocessing)
+    .map(rule => `IF ${rule.conditions.length > 0 ? rule.conditions.join(' AND ') : 'TRUE'} THEN ${describeLeaf(rule.leaf, model)}`)
+    .join('\n');
+}
@@ -0,0 +1,163 @@
+// Hyperparameter search spaces: defaults, grid expansion, random sampling
+// and validation
+import { ModelType, SearchDimension, TaskType, TuningConfig } from '@/types/pipeline';
+import { HYPERPARAMETER_CONTROLS, HyperparameterControl } from '@/lib/hyperparameters';
+import { Random } from '@/lib/ml-utils';
+
+// Upper bound on trials per search; each trial trains one model per fold
+export const MAX_TRIALS = 200;
+
+const MAX_STEPS = 20;
+
+export interface TuningMetric {
+  key: string;
+  label: string;
+  higherIsBetter: boolean;
+}
+
+// Keys match the cross-validation fold metrics
+export const TUNING_METRICS: Record<TaskType, TuningMetric[]> = {
+  classification: [
+    { key: 'accuracy', label: 'Accuracy', higherIsBetter: true },
+    { key: 'balancedAccuracy', label: 'Balanced accuracy', higherIsBetter: true },
+    { key: 'f1Macro', label: 'F1 (macro)', higherIsBetter: true },
+  ],
+  regression: [
+    { key: 'r2', label: 'R²', higherIsBetter: true },
+    { key: 'mae', label: 'MAE', higherIsBetter: false },
+    { key: 'rmse', label: 'RMSE', higherIsBetter: false },
+  ],
+};
+
+type TrialValues = Record<string, number | string>;
+
+// Search the control's whole range, on a log scale when it spans two or more
+// orders of magnitude
+export function defaultDimension(control: HyperparameterControl): SearchDimension {
+  if (control.kind === 'select') {
+    return { key: control.key, kind: 'choice', values: control.options.map(option => option.value) };
+  }
+  const logScale = control.min > 0 && control.max / control.min >= 100;
+  const span = control.integer ? control.max - control.min + 1 : Infinity;
+  return {
+    key: control.key,
+    kind: 'range',
+    min: control.min,
+    max: control.max,
+    steps: Math.min(5, span),
+    logScale,
+    integer: control.integer,
+  };
+}
+
+// Round to a few significant digits so tried values read cleanly
+function tidy(value: number, integer: boolean): number {
+  return integer ? Math.round(value) : Number(value.toPrecision(4));
+}
+
+// Values of a dimension as tried by grid search
+export function dimensionValues(dimension: SearchDimension): (number | string)[] {
+  if (dimension.kind === 'choice') return dimension.values;
+
+  const { min, max, steps, logScale, integer } = dimension;
+  const values = Array.from({ length: steps }, (_, i) => {
+    const t = steps === 1 ? 0 : i / (steps - 1);
+    const value = logScale ? min * (max / min) ** t : min + (max - min) * t;
+    return tidy(value, integer);
+  });
+  return [...new Set(values)];
+}
+
+export function gridSize(dimensions: SearchDimension[]): number {
+  return dimensions.reduce((size, dimension) => size * dimensionValues(dimension).length, 1);
+}
+
+// Every combination of the dimension values
+export function gridTrials(dimensions: SearchDimension[]): TrialValues[] {
+  return dimensions.reduce<TrialValues[]>(
+    (trials, dimension) =>
+      trials.flatMap(trial => dimensionValues(dimension).map(value => ({ ...trial, [dimension.key]: value }))),
+    [{}]
+  );
+}
+
+function sampleDimension(dimension: SearchDimension, random: Random): number | string {
+  if (dimension.kind === 'choice') {
+    return dimension.values[Math.floor(random() * dimension.values.length)];
+  }
+  const { min, max, logScale, integer } = dimension;
+  const u = random();
+  return tidy(logScale ? min * (max / min) ** u : min + (max - min) * u, integer);
+}
+
+// Up to `count` distinct random draws; small spaces may run out sooner
+export function randomTrials(dimensions: SearchDimension[], count: number, random: Random): TrialValues[] {
+  const seen = new Set<string>();
+  const trials: TrialValues[] = [];
+  for (let attempt = 0; attempt < count * 20 && trials.length < count; attempt++) {
+    const trial: TrialValues = {};
+    dimensions.forEach(dimension => (trial[dimension.key] = sampleDimension(dimension, random)));
+    const key = JSON.stringify(trial);
+    if (!seen.has(key)) {
+      seen.add(key);
+      trials.push(trial);
+    }
+  }
+  return trials;
+}
+
+export function searchTrials(tuning: TuningConfig, random: Random): TrialValues[] {
+  return tuning.strategy === 'grid'
+    ? gridTrials(tuning.dimensions)
+    : randomTrials(tuning.dimensions, tuning.budget, random);
+}
+
+// Returns one message per problem with the search set-up
+export function validateTuning(modelType: ModelType, taskType: TaskType, tuning: TuningConfig): string[] {
+  const errors: string[] = [];
+  const controls = HYPERPARAMETER_CONTROLS[modelType];
+
+  if (tuning.dimensions.length === 0) {
+    errors.push('Choose at least one hyperparameter to tune');
+  }
+  tuning.dimensions.forEach(dimension => {
+    const control = controls.find(c => c.key === dimension.key);
+    if (!control) {
+      errors.push(`"${dimension.key}" is not a hyperparameter of this model`);
+      return;
+    }
+    if (dimension.kind === 'choice') {
+      if (control.kind !== 'select' || dimension.values.length === 0) {
+        errors.push(`${control.label}: pick at least one option`);
+      } else if (dimension.values.some(value => !control.options.some(option => option.value === value))) {
+        errors.push(`${control.label}: unknown option`);
+      }
+      return;
+    }
+    if (control.kind === 'select') {
+      errors.push(`${control.label} takes a list of options, not a range`);
+    } else if (!Number.isFinite(dimension.min) || !Number.isFinite(dimension.max) || dimension.min > dimension.max) {
+      errors.push(`${control.label}: the range minimum must not exceed the maximum`);
+    } else if (dimension.min < control.min || dimension.max > control.max) {
+      errors.push(`${control.label}: the range must lie between ${control.min} and ${control.max}`);
+    } else if (dimension.logScale && dimension.min <= 0) {
+      errors.push(`${control.label}: a log scale needs a positive minimum`);
+    } else if (!Number.isInteger(dimension.steps) || dimension.steps < 1 || dimension.steps > MAX_STEPS) {
+      errors.push(`${control.label}: use between 1 and ${MAX_STEPS} grid steps`);
+    }
+  });
+
+  if (tuning.strategy === 'grid') {
+    if (errors.length === 0 && gridSize(tuning.dimensions) > MAX_TRIALS) {
+      errors.push(`The grid has ${gridSize(tuning.dimensions)} combinations; the limit is ${MAX_TRIALS}`);
+    }
+  } else if (!Number.isInteger(tuning.budget) || tuning.budget < 1 || tuning.budget > MAX_TRIALS) {
+    errors.push(`The trial budget must be a whole number between 1 and ${MAX_TRIALS}`);
+  }
+
+  if (!TUNING_METRICS[taskType].some(metric => metric.key === tuning.metric)) {
+    errors.push('Choose a metric to optimize');
+  }
+
+  return errors;
+}
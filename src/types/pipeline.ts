@@ -2,12 +2,30 @@ export type PipelineStage = 'upload' | 'preprocess' | 'split' | 'model' | 'resul
 
 export type PreprocessingMethod = 'none' | 'standard' | 'minmax';
 
-export type ModelType = 'logistic' | 'decision_tree';
+export type ImputationStrategy = 'mean' | 'median' | 'mode' | 'constant' | 'drop' | 'indicator';
+
+export type CategoricalEncoding = 'onehot' | 'ordinal' | 'target' | 'frequency';
+
+export type TaskType = 'classification' | 'regression';
+
+export type ModelType =
+  | 'logistic'
+  | 'decision_tree'
+  | 'random_forest'
+  | 'gradient_boosting'
+  | 'knn'
+  | 'gaussian_nb'
+  | 'categorical_nb'
+  | 'linear_svm'
+  | 'mlp'
+  | 'linear'
+  | 'ridge';
 
 export interface DatasetColumn {
   name: string;
   type: 'numeric' | 'categorical' | 'unknown';
   sampleValues: (string | number)[];
+  missingCount: number;
 }
 
 export interface Dataset {
@@ -18,30 +36,588 @@ export interface Dataset {
   fileName: string;
 }
 
+export interface ImputationConfig {
+  strategy: ImputationStrategy;
+  fillValue: string;
+}
+
+// Hyperparameters, one section per model type. Every model keeps its own
+// values so switching models does not lose earlier choices.
+export type Regularization = 'none' | 'l1' | 'l2';
+
+export type MaxFeatures = 'all' | 'sqrt' | 'log2';
+
+export interface LogisticHyperparameters {
+  learningRate: number;
+  iterations: number;
+  regularization: Regularization;
+  regularizationStrength: number;
+}
+
+export interface DecisionTreeHyperparameters {
+  maxDepth: number;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+  maxFeatures: MaxFeatures;
+}
+
+export interface RandomForestHyperparameters {
+  numTrees: number;
+  maxDepth: number;
+  maxFeatures: MaxFeatures;
+}
+
+export interface GradientBoostingHyperparameters {
+  learningRate: number;
+  numEstimators: number;
+  maxDepth: number;
+  // Share of training rows drawn (without replacement) for each round
+  subsample: number;
+  // Share of training rows held out for early stopping; 0 disables it
+  validationFraction: number;
+  // Rounds without validation improvement before stopping
+  patience: number;
+}
+
+export type DistanceMetric = 'euclidean' | 'manhattan' | 'cosine';
+
+export interface KnnHyperparameters {
+  k: number;
+  metric: DistanceMetric;
+  // Uniform votes, or votes weighted by inverse distance
+  weighting: 'uniform' | 'distance';
+}
+
+export interface GaussianNBHyperparameters {
+  // Share of the largest feature variance added to every variance
+  varSmoothing: number;
+}
+
+export interface CategoricalNBHyperparameters {
+  // Laplace smoothing added to every category count
+  alpha: number;
+  // Quantile bins for features with more distinct values than this
+  bins: number;
+}
+
+export interface LinearSvmHyperparameters {
+  learningRate: number;
+  epochs: number;
+  regularizationStrength: number;
+}
+
+export type MlpActivation = 'relu' | 'tanh' | 'sigmoid';
+
+export interface MlpHyperparameters {
+  hiddenLayers: number;
+  // Units in every hidden layer
+  hiddenUnits: number;
+  activation: MlpActivation;
+  epochs: number;
+  batchSize: number;
+  // Adam step size
+  learningRate: number;
+}
+
+export interface RidgeHyperparameters {
+  alpha: number;
+}
+
+export interface ModelHyperparameters {
+  logistic: LogisticHyperparameters;
+  decision_tree: DecisionTreeHyperparameters;
+  random_forest: RandomForestHyperparameters;
+  gradient_boosting: GradientBoostingHyperparameters;
+  knn: KnnHyperparameters;
+  gaussian_nb: GaussianNBHyperparameters;
+  categorical_nb: CategoricalNBHyperparameters;
+  linear_svm: LinearSvmHyperparameters;
+  mlp: MlpHyperparameters;
+  linear: Record<string, never>;
+  ridge: RidgeHyperparameters;
+}
+
+// Optional k-fold cross-validation on the training split, run in addition
+// to the held-out test evaluation
+export interface CrossValidationConfig {
+  enabled: boolean;
+  folds: number;
+  stratified: boolean;
+}
+
 export interface PipelineConfig {
+  taskType: TaskType;
   preprocessing: PreprocessingMethod;
+  imputation: ImputationConfig;
+  categoricalEncodings: Record<string, CategoricalEncoding>;
   splitRatio: number;
+  // Seeds every random choice (split, folds, feature sampling) so a run can
+  // be reproduced exactly
+  seed: number;
+  // Keep class proportions equal in the train and test parts
+  stratify: boolean;
   targetColumn: string | null;
   featureColumns: string[];
   modelType: ModelType;
+  hyperparameters: ModelHyperparameters;
+  crossValidation: CrossValidationConfig;
 }
 
-export interface TrainingResults {
-  accuracy: number;
-  trainAccuracy: number;
+// Fitted preprocessing parameters. Everything is plain data so a fitted
+// pipeline can be stored and re-applied to new rows.
+export type ScalerParams =
+  | { method: 'standard'; means: number[]; stds: number[] }
+  | { method: 'minmax'; mins: number[]; maxs: number[] };
+
+export interface ImputerParams {
+  strategy: ImputationStrategy;
+  fillValues: number[];
+  indicatorColumns: number[];
+}
+
+export interface CategoricalEncoderParams {
+  method: CategoricalEncoding;
+  categories: string[];
+  table: number[][];
+  unknown: number[];
+  outputNames: string[];
+}
+
+export interface NumericColumnStats {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface FittedPreprocessing {
+  featureColumns: string[];
+  numericColumns: string[];
+  // Empty for models imported from bundles exported before the stats were kept
+  numericStats: NumericColumnStats[];
+  imputer: ImputerParams;
+  categorical: Record<string, { fillValue: string; encoder: CategoricalEncoderParams }>;
+  scaler: ScalerParams | null;
+  featureNames: string[];
+}
+
+// Scores keyed by metric name: accuracy, balancedAccuracy and f1Macro for
+// classification; r2, mae and rmse for regression
+export type MetricScores = Record<string, number>;
+
+export interface FoldResult {
+  trainSize: number;
+  testSize: number;
+  metrics: MetricScores;
+}
+
+export interface CrossValidationResults {
+  stratified: boolean;
+  folds: FoldResult[];
+  summary: Record<string, { mean: number; std: number }>;
+  // Summed over all held-out folds; null for regression
+  confusionMatrix: number[][] | null;
+}
+
+export type SearchStrategy = 'grid' | 'random';
+
+// Values tried for one hyperparameter. Ranges are spread evenly (or
+// geometrically on a log scale) for grid search and sampled uniformly on the
+// same scale for random search.
+export type SearchDimension =
+  | { key: string; kind: 'range'; min: number; max: number; steps: number; logScale: boolean; integer: boolean }
+  | { key: string; kind: 'choice'; values: string[] };
+
+export interface TuningConfig {
+  strategy: SearchStrategy;
+  // Trials drawn by random search; grid search tries every combination
+  budget: number;
+  // Cross-validated metric to optimize, one of the fold metric keys
+  metric: string;
+  dimensions: SearchDimension[];
+}
+
+export interface TuningTrial {
+  // Tuned hyperparameters only; the rest keep their configured values
+  hyperparameters: Record<string, number | string>;
+  score: { mean: number; std: number };
+  time: number;
+}
+
+export interface TuningResults {
+  strategy: SearchStrategy;
+  metric: string;
+  higherIsBetter: boolean;
+  folds: number;
+  trials: TuningTrial[];
+  bestTrial: number;
+}
+
+// Logistic regression weights multiplied by the training standard deviation
+// of each model feature, so they compare across features; exp() of a value
+// is the odds ratio for a one-standard-deviation increase. Binary problems
+// have a single row for the positive class, otherwise one row per class.
+export interface CoefficientSummary {
+  featureNames: string[];
+  classes: string[];
+  standardized: number[][];
+}
+
+// Feature importance per raw feature column, in config.featureColumns order
+export interface FeatureImportanceResults {
+  featureColumns: string[];
+  // Drop in the test-set metric (accuracy or R²) when a column's values are
+  // shuffled, over several shuffles
+  permutation: { metric: string; repeats: number; mean: number[]; std: number[] };
+  // Trees and forests: share of the total impurity decrease from splits on
+  // each column
+  impurity: number[] | null;
+  coefficients: CoefficientSummary | null;
+}
+
+interface BaseTrainingResults {
   predictions: number[];
-  confusionMatrix: number[][];
+  // Test-set targets (encoded class indices for classification)
+  actuals: number[];
   trainingTime: number;
   trainSize: number;
   testSize: number;
+  crossValidation: CrossValidationResults | null;
+  // Set when the hyperparameters came out of a search
+  tuning: TuningResults | null;
+  featureImportance: FeatureImportanceResults | null;
+  // Random forests only: accuracy (classification) or R² (regression) of
+  // each training row predicted by the trees that did not see it
+  outOfBagScore: number | null;
+}
+
+export interface AveragedScores {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ClassScores extends AveragedScores {
+  support: number;
+}
+
+// Per-class precision/recall/F1 with macro (unweighted) and weighted (by
+// support) averages
+export interface ClassificationReport {
+  perClass: ClassScores[];
+  macro: AveragedScores;
+  weighted: AveragedScores;
+}
+
+export interface ClassificationResults extends BaseTrainingResults {
+  taskType: 'classification';
+  accuracy: number;
+  trainAccuracy: number;
+  balancedAccuracy: number;
+  mcc: number;
+  report: ClassificationReport;
+  // Test-set class probabilities, one row per test sample; null for models
+  // that only predict labels, which also leaves log-loss and ROC-AUC null
+  probabilities: number[][] | null;
+  logLoss: number | null;
+  rocAuc: number | null;
+  // Gradient boosting only: train/validation loss per round
+  boostingHistory: BoostingHistory | null;
+  confusionMatrix: number[][];
+  classLabels: string[];
+}
+
+export interface RegressionResults extends BaseTrainingResults {
+  taskType: 'regression';
+  mae: number;
+  rmse: number;
+  r2: number;
+  trainR2: number;
+}
+
+export type TrainingResults = ClassificationResults | RegressionResults;
+
+// Fitted model parameters
+export interface LogisticParams {
+  weights: number[][];
+  biases: number[];
+}
+
+// Boosted trees: per round one regression tree per class (a single tree for
+// binary problems) added to the initial log-odds scores
+export interface GradientBoostingParams {
+  initialScores: number[];
+  learningRate: number;
+  trees: TreeNode[][];
+}
+
+// Log-loss after each boosting round; bestRound is the number of rounds kept
+export interface BoostingHistory {
+  rounds: { train: number; validation: number | null }[];
+  bestRound: number;
+}
+
+// k-NN keeps the preprocessed training set and searches it at prediction time
+export interface KnnParams {
+  X: number[][];
+  y: number[];
+}
+
+export interface GaussianNBParams {
+  logPriors: number[];
+  // [class][feature]
+  means: number[][];
+  variances: number[][];
+}
+
+// Every feature is mapped to a category by counting the bin edges below its
+// value; logLikelihoods is [class][feature][category]
+export interface CategoricalNBParams {
+  logPriors: number[];
+  edges: number[][];
+  logLikelihoods: number[][][];
+}
+
+// One dense layer: weights[unit][input]
+export interface DenseLayer {
+  weights: number[][];
+  biases: number[];
+}
+
+// Hidden layers use the activation; the output layer is softmax for
+// classification and linear for regression. Regression targets are
+// standardized for training and mapped back with targetMean / targetStd.
+export interface MlpParams {
+  activation: MlpActivation;
+  layers: DenseLayer[];
+  targetMean: number;
+  targetStd: number;
+}
+
+export interface LinearParams {
+  weights: number[];
+  bias: number;
+}
+
+// Decision Tree Node. samples, impurity and value describe the training
+// samples reaching the node: value holds per-class counts for classification
+// trees and the mean target for regression trees. Trees saved before these
+// were recorded lack them.
+export interface TreeNode {
+  feature?: number;
+  threshold?: number;
+  left?: TreeNode;
+  right?: TreeNode;
+  prediction?: number;
+  samples?: number;
+  impurity?: number;
+  value?: number[];
+}
+
+// A trained model with everything needed to score new rows: the fitted
+// preprocessing, the raw feature columns in order and, for classification,
+// the mapping from encoded label index back to the original class value.
+interface TrainedModelBase {
+  taskType: TaskType;
+  targetColumn: string;
+  featureColumns: string[];
+  classLabels: string[] | null;
+  preprocessing: FittedPreprocessing;
+}
+
+export interface LogisticModel extends TrainedModelBase, LogisticParams {
+  modelType: 'logistic';
+}
+
+// featureImportances holds the normalized impurity decrease per model
+// feature; models saved before it was recorded lack it
+export interface DecisionTreeModel extends TrainedModelBase {
+  modelType: 'decision_tree';
+  tree: TreeNode;
+  featureImportances?: number[];
+}
+
+export interface RandomForestModel extends TrainedModelBase {
+  modelType: 'random_forest';
+  trees: TreeNode[];
+  outOfBagScore: number | null;
+  featureImportances?: number[];
+}
+
+export interface GradientBoostingModel extends TrainedModelBase, GradientBoostingParams {
+  modelType: 'gradient_boosting';
+  history: BoostingHistory;
+}
+
+export interface KnnModel extends TrainedModelBase, KnnParams, KnnHyperparameters {
+  modelType: 'knn';
+}
+
+export interface GaussianNBModel extends TrainedModelBase, GaussianNBParams {
+  modelType: 'gaussian_nb';
+}
+
+export interface CategoricalNBModel extends TrainedModelBase, CategoricalNBParams {
+  modelType: 'categorical_nb';
+}
+
+// Same one-vs-rest layout as logistic regression; scores are margins, not
+// probabilities
+export interface LinearSvmModel extends TrainedModelBase, LogisticParams {
+  modelType: 'linear_svm';
+}
+
+export interface MlpModel extends TrainedModelBase, MlpParams {
+  modelType: 'mlp';
+}
+
+export interface LinearModel extends TrainedModelBase, LinearParams {
+  modelType: 'linear' | 'ridge';
+}
+
+export type TrainedModel =
+  | LogisticModel
+  | DecisionTreeModel
+  | RandomForestModel
+  | GradientBoostingModel
+  | KnnModel
+  | GaussianNBModel
+  | CategoricalNBModel
+  | LinearSvmModel
+  | MlpModel
+  | LinearModel;
+
+// Progress reported while a pipeline trains. fraction is 0..1 across the
+// model-fitting step; detail describes the latest iteration or tree node.
+export interface TrainingProgress {
+  phase: 'preprocessing' | 'training' | 'evaluating';
+  fraction: number;
+  detail: string;
+}
+
+// One model/preprocessing combination of a comparison run
+export interface ComparisonCandidate {
+  modelType: ModelType;
+  preprocessing: PreprocessingMethod;
+}
+
+export interface ComparisonEntry extends ComparisonCandidate {
+  results: TrainingResults | null;
+  model: TrainedModel | null;
+  // Set instead of results when this candidate failed to train
+  error: string | null;
 }
 
 export interface PipelineState {
   currentStage: PipelineStage;
   dataset: Dataset | null;
   config: PipelineConfig;
+  // The config the current results and model (or comparison) were trained
+  // with. The stages stay editable after training, so config can move on.
+  trainedConfig: PipelineConfig | null;
   results: TrainingResults | null;
+  model: TrainedModel | null;
+  comparison: ComparisonEntry[] | null;
   isProcessing: boolean;
   error: string | null;
   completedStages: PipelineStage[];
 }
+
+// Versioned JSON bundle used to export a trained model and import it again
+export interface ModelBundle {
+  format: 'ml-pipeline-model';
+  version: number;
+  exportedAt: string;
+  config: PipelineConfig;
+  schema: Pick<DatasetColumn, 'name' | 'type'>[];
+  model: TrainedModel;
+  results: TrainingResults;
+}
+
+// Messages exchanged with the training Web Worker
+export type TrainingWorkerRequest =
+  | { type: 'train'; dataset: Dataset; config: PipelineConfig }
+  | { type: 'compare'; dataset: Dataset; config: PipelineConfig; candidates: ComparisonCandidate[] }
+  | { type: 'tune'; dataset: Dataset; config: PipelineConfig; tuning: TuningConfig };
+
+export type TrainingWorkerResponse =
+  | { type: 'progress'; progress: TrainingProgress }
+  | { type: 'trained'; results: TrainingResults; model: TrainedModel }
+  | { type: 'compared'; entries: ComparisonEntry[] }
+  | { type: 'error'; message: string };
+
+// The test rows of a model's training-time split, scored afresh so imported
+// models can be explored too. X_test and background are preprocessed.
+export interface ScoredTestSet {
+  testRows: Record<string, unknown>[];
+  X_test: number[][];
+  // The preprocessed training rows that explanations are measured against
+  background: number[][];
+  predictions: number[];
+  probabilities: number[][] | null;
+}
+
+// A local explanation: how much each feature column moved one prediction
+// away from the model's average output
+export interface Explanation {
+  method: 'linear' | 'tree_path' | 'sampling';
+  // The explained output: log-odds for logistic regression, otherwise the
+  // class probability or the regression prediction
+  output: 'log_odds' | 'probability' | 'value';
+  // Class whose score is explained (the predicted one); null for regression
+  classIndex: number | null;
+  baseValue: number;
+  // One per model.featureColumns
+  contributions: number[];
+  // The model's output for the row. Equals baseValue + Σ contributions for
+  // exact methods; sampled contributions only add up to it approximately.
+  value: number;
+}
+
+// Partial dependence of the model output on one numeric column, with ICE
+// curves for a sample of training rows
+export interface DependenceCurve {
+  column: string;
+  // Grid on the raw column scale
+  values: number[];
+  average: number[];
+  // One curve per sampled row
+  ice: number[][];
+}
+
+export interface DependenceSurface {
+  columns: [string, string];
+  values: [number[], number[]];
+  // surface[a][b]: mean output at values[0][a] and values[1][b]
+  surface: number[][];
+}
+
+// Messages exchanged with the analysis Web Worker, which computes the
+// results view's explanations on demand. Rows are preprocessed features;
+// only test set scoring starts from the raw dataset.
+// classIndex picks the class whose probability is plotted, null for regression.
+export type AnalysisWorkerRequest =
+  | { type: 'score_test_set'; model: TrainedModel; dataset: Dataset; config: PipelineConfig }
+  | { type: 'explain'; model: TrainedModel; x: number[]; background: number[][]; seed: number }
+  | {
+      type: 'dependence_curve';
+      model: TrainedModel;
+      background: number[][];
+      column: string;
+      classIndex: number | null;
+      seed: number;
+    }
+  | {
+      type: 'dependence_surface';
+      model: TrainedModel;
+      background: number[][];
+      columns: [string, string];
+      classIndex: number | null;
+      seed: number;
+    };
+
+export type AnalysisWorkerResponse =
+  | { type: 'test_set_scored'; testSet: ScoredTestSet }
+  | { type: 'explained'; explanation: Explanation }
+  | { type: 'dependence_curve'; curve: DependenceCurve }
+  | { type: 'dependence_surface'; surface: DependenceSurface }
+  | { type: 'error'; message: string };
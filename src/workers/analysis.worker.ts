@@ -0,0 +1,36 @@
+// Computes model explanations for the results view off the main thread.
+// Each request gets a fresh worker, so there is no state between messages.
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from '@/types/pipeline';
+import { explainPrediction, scoreTestSet } from '@/lib/explanations';
+import { dependenceCurve, dependenceSurface } from '@/lib/partial-dependence';
+import { createRandom } from '@/lib/ml-utils';
+
+const ctx = self as unknown as Worker;
+
+function post(message: AnalysisWorkerResponse) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'score_test_set') {
+      post({ type: 'test_set_scored', testSet: scoreTestSet(request.model, request.dataset, request.config) });
+      return;
+    }
+    const random = createRandom(request.seed);
+    if (request.type === 'dependence_curve') {
+      const curve = dependenceCurve(request.model, request.background, request.column, request.classIndex, random);
+      post({ type: 'dependence_curve', curve });
+      return;
+    }
+    if (request.type === 'dependence_surface') {
+      const surface = dependenceSurface(request.model, request.background, request.columns, request.classIndex, random);
+      post({ type: 'dependence_surface', surface });
+      return;
+    }
+    post({ type: 'explained', explanation: explainPrediction(request.model, request.x, request.background, random) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Analysis failed' });
+  }
+};
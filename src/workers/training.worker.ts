@@ -0,0 +1,40 @@
+// Runs the training pipeline off the main thread. Progress is throttled so
+// the UI receives a few updates per second rather than one per iteration.
+import { TrainingProgress, TrainingWorkerRequest, TrainingWorkerResponse } from '@/types/pipeline';
+import { comparePipelines, trainPipeline, tunePipeline } from '@/lib/pipeline';
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const ctx = self as unknown as Worker;
+
+function post(message: TrainingWorkerResponse) {
+  ctx.postMessage(message);
+}
+
+let lastProgressAt = 0;
+
+function reportProgress(progress: TrainingProgress) {
+  const now = performance.now();
+  if (progress.phase === 'training' && progress.fraction < 1 && now - lastProgressAt < PROGRESS_INTERVAL_MS) {
+    return;
+  }
+  lastProgressAt = now;
+  post({ type: 'progress', progress });
+}
+
+ctx.onmessage = (event: MessageEvent<TrainingWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'compare') {
+      const entries = comparePipelines(request.dataset, request.config, request.candidates, reportProgress);
+      post({ type: 'compared', entries });
+      return;
+    }
+    const { results, model } = request.type === 'tune'
+      ? tunePipeline(request.dataset, request.config, request.tuning, reportProgress)
+      : trainPipeline(request.dataset, request.config, reportProgress);
+    post({ type: 'trained', results, model });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Training failed' });
+  }
+};